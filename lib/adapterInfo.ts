@@ -0,0 +1,152 @@
+/**
+ * What an adapter reported about itself and which commands it accepted, see
+ * OBDReader.probeAdapter().
+ */
+export interface AdapterInfo {
+    /**
+     * Identification from ATI, e.g. "ELM327 v1.5".
+     */
+    identification: string;
+    /**
+     * Version number claimed in the identification, e.g. 1.5. Undefined if the
+     * identification has none.
+     */
+    version: number;
+    /**
+     * Device description from AT@1. --! Only if the adapter supports the command.
+     */
+    description?: string;
+    /**
+     * Protocol number from ATDPN, e.g. "6". "0" while no protocol was found yet.
+     */
+    protocol: string;
+    /**
+     * Whether the protocol is selected automatically (ATSP0).
+     */
+    automaticProtocol: boolean;
+    /**
+     * Protocol name from ATDP, e.g. "ISO 15765-4 (CAN 11/500)".
+     */
+    protocolDescription: string;
+    /**
+     * Battery voltage in V from ATRV. --! Only if the adapter supports the command.
+     */
+    voltage?: number;
+    /**
+     * Whether the adapter accepted the header command for OBDReader.headers (ATH1 or ATH0).
+     * OBDReader turns headers off if it rejected ATH1.
+     */
+    headers: boolean;
+    /**
+     * Whether the adapter accepted ATAT2 (adaptive timing).
+     */
+    adaptiveTiming: boolean;
+    /**
+     * Whether the adapter accepted ATST (response timeout).
+     */
+    timeoutSetting: boolean;
+    /**
+     * Whether the adapter claims a version that has all probed commands but rejected some.
+     * Such clones often mishandle requests for several PIDs too, so those aren't batched.
+     */
+    clone: boolean;
+    /**
+     * The timing commands (ATAT2, ATST32) the adapter answered with "?".
+     */
+    rejectedCommands: string[];
+}
+
+/**
+ * First ELM327 version with all probed commands (adaptive timing came with v1.2).
+ */
+const minimumVersion = 1.2;
+
+/**
+ * First ELM327 version that takes the number of expected responses behind a request, e.g.
+ * "010C1", and returns as soon as they arrived instead of waiting for its timeout.
+ */
+const responseCountVersion = 1.3;
+
+/**
+ * Whether requests may carry the number of expected responses. Adapters without a version
+ * in their identification are given the benefit of the doubt.
+ */
+export function supportsResponseCount(info: AdapterInfo) {
+    return info.version === undefined || info.version >= responseCountVersion;
+}
+
+/**
+ * Reads what the adapter reports about itself and tries the header and timing commands, see
+ * AdapterInfo. Sends ATAT2 and ATST32, so adaptive timing is on and the response timeout at
+ * its default of 200ms afterwards, where supported.
+ * @param {Function} sendAT Sends an AT command and resolves with the answer. Rejects when
+ * the adapter answers "?".
+ * @param {boolean} headers Whether headers should be on, the header command is sent for it.
+ * @return {Promise} The AdapterInfo.
+ */
+export function probeAdapter(sendAT: (command: string) => Promise<string>, headers: boolean = false): Promise<AdapterInfo> {
+    //Resolves undefined for a rejected command, the other commands are still probed.
+    const tryCommand = (command: string) => sendAT(command).catch((): string => undefined);
+
+    const info: AdapterInfo = {
+        identification: '',
+        version: undefined,
+        protocol: '0',
+        automaticProtocol: false,
+        protocolDescription: '',
+        headers: false,
+        adaptiveTiming: false,
+        timeoutSetting: false,
+        clone: false,
+        rejectedCommands: []
+    };
+    return sendAT('ATI').then(identification => {
+        info.identification = lastLine(identification);
+        const version = /v(\d+\.\d+)/i.exec(info.identification);
+        info.version = version ? parseFloat(version[1]) : undefined;
+        return tryCommand('AT@1');
+    }).then(description => {
+        if (description !== undefined) {
+            info.description = lastLine(description);
+        }
+        return tryCommand('ATRV');
+    }).then(voltage => {
+        const volts = voltage !== undefined ? parseFloat(lastLine(voltage)) : NaN;
+        if (!isNaN(volts)) {
+            info.voltage = volts;
+        }
+        return sendAT('ATDP');
+    }).then(description => {
+        info.protocolDescription = lastLine(description).replace(/^AUTO, ?/, '');
+        return sendAT('ATDPN');
+    }).then(protocol => {
+        const number = lastLine(protocol);
+        info.automaticProtocol = number.charAt(0) === 'A';
+        info.protocol = number.replace(/^A/, '');
+        return tryCommand(headers ? 'ATH1' : 'ATH0');
+    }).then(answer => {
+        info.headers = answer !== undefined;
+        return tryCommand('ATAT2');
+    }).then(answer => {
+        info.adaptiveTiming = answer !== undefined;
+        if (!info.adaptiveTiming) {
+            info.rejectedCommands.push('ATAT2');
+        }
+        return tryCommand('ATST32');
+    }).then(answer => {
+        info.timeoutSetting = answer !== undefined;
+        if (!info.timeoutSetting) {
+            info.rejectedCommands.push('ATST32');
+        }
+        info.clone = info.version >= minimumVersion && (!info.adaptiveTiming || !info.timeoutSetting);
+        return info;
+    });
+}
+
+/**
+ * Some adapters print an empty line or their identification before the answer.
+ */
+function lastLine(answer: string) {
+    const lines = answer.split('\n').filter(line => line.trim() !== '');
+    return lines.length > 0 ? lines[lines.length - 1].trim() : '';
+}
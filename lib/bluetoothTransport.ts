@@ -0,0 +1,66 @@
+import { EventEmitter } from 'events';
+//Only used as a type, so the module isn't loaded here, see loadBluetoothSerialPort().
+import BSP from 'bluetooth-serial-port';
+
+import { Transport } from './transport';
+
+/**
+ * Loads bluetooth-serial-port on first use. Its native binding isn't built everywhere, and
+ * the other transports shouldn't need it.
+ * @throws if the module or its binding can't be loaded.
+ */
+export function loadBluetoothSerialPort(): typeof BSP {
+    return require('bluetooth-serial-port');
+}
+
+/**
+ * Transport over an RFCOMM channel of a Bluetooth OBD-II adapter.
+ */
+export class BluetoothTransport extends EventEmitter implements Transport {
+    btSerial: BSP.BluetoothSerialPort;
+
+    /**
+     * @param {string} address Bluetooth address of the adapter.
+     * @param {number} channel RFCOMM channel, see BluetoothSerialPort.findSerialPortChannel.
+     */
+    constructor(public address: string, public channel: number) {
+        super();
+    }
+
+    open(success: () => void, error: (err?: any) => void) {
+        let btSerial: BSP.BluetoothSerialPort;
+        try {
+            btSerial = new (loadBluetoothSerialPort().BluetoothSerialPort)();
+        } catch (err) {
+            error(err);
+            return;
+        }
+
+        btSerial.on('data', (buffer: Buffer) => {
+            this.emit('data', buffer.toString('utf-8'));
+        });
+        btSerial.on('failure', (err: any) => {
+            this.emit('failure', err);
+        });
+        btSerial.on('closed', () => {
+            this.emit('closed');
+        });
+
+        this.btSerial = btSerial;
+        btSerial.connect(this.address, this.channel, success, error);
+    }
+
+    write(buffer: Buffer, cb: (err?: any) => void) {
+        this.btSerial.write(buffer, cb);
+    }
+
+    close() {
+        if (this.btSerial) {
+            this.btSerial.close();
+        }
+    }
+
+    isOpen() {
+        return !!this.btSerial && this.btSerial.isOpen();
+    }
+}
@@ -0,0 +1,393 @@
+#!/usr/bin/env node
+import {
+    OBDReader, OBDReply, Transport, TcpTransport, ELM327Emulator, DiagnosticTroubleCode, pidRegistry, unitProfiles, isEnumeratedValue
+} from './obd';
+
+interface CliOptions {
+    /**
+     * Print JSON instead of text.
+     */
+    json: boolean;
+    /**
+     * Name or address of the Bluetooth adapter, see OBDReader.autoconnect().
+     */
+    device: string;
+    /**
+     * host[:port] of a WiFi adapter.
+     */
+    tcp?: string;
+    /**
+     * Talk to the simulated vehicle of ELM327Emulator.
+     */
+    emulator: boolean;
+    /**
+     * Polling interval of watch in ms.
+     */
+    interval?: number;
+    /**
+     * Unit profile name, see unitProfiles.
+     */
+    units?: string;
+    /**
+     * Confirms dtc clear.
+     */
+    yes: boolean;
+    help: boolean;
+}
+
+/**
+ * A command's result: the data printed with --json, and the text printed otherwise.
+ */
+interface Output {
+    data: any;
+    text: string;
+}
+
+const usage = [
+    'Usage: obd <command> [options]',
+    '',
+    'Commands:',
+    '  scan                 Connect and show the adapter, protocol and VIN',
+    '  pids                 List the PIDs the vehicle supports',
+    '  watch <pid...>       Show live values, e.g. "obd watch rpm vss temp". Ctrl+C stops',
+    '  dtc read             Show the stored, pending and permanent trouble codes',
+    '  dtc clear --yes      Clear the trouble codes, freeze frames and readiness monitors',
+    '  raw <command>        Send an AT command or hex request, e.g. "obd raw ATRV" or "obd raw 010C"',
+    '',
+    'Options:',
+    '  --device <query>     Bluetooth adapter to connect to, matched against name and address.',
+    '                       Defaults to the first adapter found',
+    '  --tcp <host[:port]>  Connect to a WiFi adapter instead, port defaults to 35000',
+    '  --emulator           Connect to a simulated vehicle, to try the commands',
+    '  --interval <ms>      Polling interval of watch',
+    '  --units <profile>    metric, us or uk. Defaults to metric',
+    '  --json               Print JSON instead of text',
+    '  --help               Show this help'
+].join('\n');
+
+/**
+ * Splits the arguments into the command words and the options.
+ */
+function parseArgs(argv: string[]): { words: string[], options: CliOptions } {
+    const options: CliOptions = { json: false, device: '', emulator: false, yes: false, help: false };
+    const words: string[] = [];
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            if (i + 1 >= argv.length) {
+                throw new Error('Missing value for ' + arg);
+            }
+            return argv[++i];
+        };
+        switch (arg) {
+            case '--json':
+                options.json = true;
+                break;
+            case '--device':
+                options.device = value();
+                break;
+            case '--tcp':
+                options.tcp = value();
+                break;
+            case '--emulator':
+                options.emulator = true;
+                break;
+            case '--interval':
+                options.interval = parseInt(value(), 10);
+                break;
+            case '--units':
+                options.units = value();
+                break;
+            case '--yes':
+            case '-y':
+                options.yes = true;
+                break;
+            case '--help':
+            case '-h':
+                options.help = true;
+                break;
+            default:
+                if (arg.charAt(0) === '-') {
+                    throw new Error('Unknown option ' + arg);
+                }
+                words.push(arg);
+        }
+    }
+    return { words: words, options: options };
+}
+
+/**
+ * Connects with the adapter given by the options and resolves once it is ready.
+ */
+function connect(options: CliOptions): Promise<OBDReader> {
+    const reader = new OBDReader();
+    //The commands ask for what they need, and a CLI run should fail instead of retrying.
+    reader.discoverPidsOnConnect = false;
+    reader.probeAdapterOnConnect = false;
+    reader.autoReconnect = false;
+    if (options.units) {
+        if (!unitProfiles[options.units]) {
+            return Promise.reject(new Error('Unknown unit profile ' + options.units + ', use ' + Object.keys(unitProfiles).join(', ')));
+        }
+        reader.unitProfile = unitProfiles[options.units];
+    }
+
+    return new Promise<OBDReader>((resolve, reject) => {
+        const failed = (err: Error) => reject(err);
+        reader.on('error', failed);
+        reader.once('ready', () => {
+            reader.removeListener('error', failed);
+            //Errors after connecting, e.g. of pollers, are reported by the commands.
+            reader.on('error', (): void => undefined);
+            resolve(reader);
+        });
+
+        if (options.emulator) {
+            reader.connect(new ELM327Emulator({ dtcs: ['P0133'] }).createTransport());
+        } else if (options.tcp) {
+            const address = options.tcp.split(':');
+            const transport: Transport = new TcpTransport(address[0], address[1] ? parseInt(address[1], 10) : undefined);
+            reader.connect(transport);
+        } else {
+            reader.autoconnect(options.device);
+        }
+    });
+}
+
+function disconnect(reader: OBDReader): Promise<void> {
+    return new Promise<void>(resolve => reader.disconnect(() => resolve()));
+}
+
+/**
+ * A reply value as text: with its unit where the PID has one.
+ */
+function formatReply(reader: OBDReader, reply: OBDReply): string {
+    if (reply.kind === 'pid' && reply.converted) {
+        return reader.formatReply(reply);
+    }
+    const value = reply.value;
+    if (isEnumeratedValue(value)) {
+        return value.description;
+    }
+    if (Array.isArray(value)) {
+        return value.join(' ');
+    }
+    return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function pad(text: string, width: number) {
+    while (text.length < width) {
+        text += ' ';
+    }
+    return text;
+}
+
+function scan(reader: OBDReader): Promise<Output> {
+    return reader.probeAdapter().then(adapter => {
+        //The VIN request makes an adapter on automatic protocol search for the vehicle.
+        return reader.query('vin').then(reply => reply.value, (): string => undefined).then(vin => {
+            return Promise.all([reader.detectProtocol(), reader.sendAT('ATDP').catch((): string => undefined)]).then(results => {
+                const data = {
+                    adapter: adapter,
+                    protocol: results[0],
+                    protocolDescription: results[1] !== undefined ? results[1].replace(/^AUTO, ?/, '') : undefined,
+                    vin: vin
+                };
+                const lines = [
+                    'Adapter:   ' + adapter.identification + (adapter.description ? ' (' + adapter.description + ')' : '') + (adapter.clone ? ', probably a clone' : ''),
+                    'Voltage:   ' + (adapter.voltage !== undefined ? adapter.voltage + ' V' : 'unknown'),
+                    'Protocol:  ' + (data.protocol !== undefined ? data.protocol + ' ' + (data.protocolDescription || '') : 'no vehicle found'),
+                    'VIN:       ' + (vin || 'not available')
+                ];
+                return { data: data, text: lines.join('\n') };
+            });
+        });
+    });
+}
+
+function pids(reader: OBDReader): Promise<Output> {
+    return reader.discoverSupportedPids().then(supported => {
+        const data: { [ecu: string]: { command: string, name: string, description: string }[] } = {};
+        const lines: string[] = [];
+        Object.keys(supported).forEach(ecu => {
+            data[ecu] = supported[ecu].map(command => {
+                const definition = pidRegistry.getByCommand(command);
+                return {
+                    command: command,
+                    name: definition ? definition.name : undefined,
+                    description: definition ? definition.description : undefined
+                };
+            });
+            lines.push('ECU ' + ecu + ':');
+            data[ecu].forEach(pid => lines.push('  ' + pid.command + '  ' + pad(pid.name || '?', 16) + (pid.description || '')));
+        });
+        return { data: data, text: lines.join('\n') };
+    });
+}
+
+function readDTCs(reader: OBDReader): Promise<Output> {
+    //Permanent codes are optional before model year 2010, some ECUs reject the request.
+    const optional = (request: Promise<DiagnosticTroubleCode[]>) => request.catch((): DiagnosticTroubleCode[] => undefined);
+    return reader.readStoredDTCs().then(stored => {
+        return Promise.all([optional(reader.readPendingDTCs()), optional(reader.readPermanentDTCs())]).then(results => {
+            const data = { stored: stored, pending: results[0], permanent: results[1] };
+            const lines: string[] = [];
+            const list = (title: string, codes: DiagnosticTroubleCode[]) => {
+                if (codes === undefined) {
+                    lines.push(title + ': not supported');
+                    return;
+                }
+                lines.push(title + ' (' + codes.length + ')' + (codes.length === 0 ? ': none' : ':'));
+                codes.forEach(dtc => lines.push('  ' + dtc.code + '  ' + (dtc.description || 'Manufacturer specific')));
+            };
+            list('Stored', data.stored);
+            list('Pending', data.pending);
+            list('Permanent', data.permanent);
+            return { data: data, text: lines.join('\n') };
+        });
+    });
+}
+
+function clearDTCs(reader: OBDReader): Promise<Output> {
+    return reader.clearDTCs().then(() => ({ data: { cleared: true }, text: 'Trouble codes cleared.' }));
+}
+
+function raw(reader: OBDReader, command: string): Promise<Output> {
+    return reader.request(command).then(lines => ({ data: { command: command, lines: lines }, text: lines.join('\n') }));
+}
+
+/**
+ * Polls the PIDs until Ctrl+C. Redraws a table on a terminal, prints one line per reply
+ * otherwise and with --json.
+ */
+function watch(reader: OBDReader, names: string[], options: CliOptions): Promise<void> {
+    const unknown = names.filter(name => !pidRegistry.getByName(name));
+    if (names.length === 0 || unknown.length > 0) {
+        return Promise.reject(new Error(names.length === 0 ? 'Name the PIDs to watch, e.g. "obd watch rpm vss"' :
+            'Unknown PID ' + unknown.join(', ') + ', see "obd pids" for the supported ones'));
+    }
+    const table = !options.json && process.stdout.isTTY;
+    const latest: { [key: string]: { name: string, ecu: string, text: string } } = {};
+    let redrawTimer: any;
+
+    const redraw = () => {
+        redrawTimer = undefined;
+        const rows = names.map(name => {
+            const entries = Object.keys(latest).map(key => latest[key]).filter(entry => entry.name === name);
+            return entries.length === 0 ? [pad(name, 16) + '-'] :
+                entries.map(entry => pad(name, 16) + (entry.ecu !== undefined ? pad(entry.ecu, 10) : '') + entry.text);
+        });
+        //Moves the cursor home and clears the screen.
+        process.stdout.write('\x1b[H\x1b[2J' + [].concat.apply([], rows).join('\n') + '\n\nCtrl+C to stop\n');
+    };
+
+    reader.on('dataReceived', (reply: OBDReply) => {
+        if (reply.kind !== 'pid' || names.indexOf(reply.name) === -1) {
+            return;
+        }
+        if (options.json) {
+            console.log(JSON.stringify({ time: new Date().toISOString(), name: reply.name, ecu: reply.ecu, value: reply.value, converted: reply.converted }));
+        } else if (table) {
+            latest[reply.name + '/' + reply.ecu] = { name: reply.name, ecu: reply.ecu, text: formatReply(reader, reply) };
+            if (!redrawTimer) {
+                redrawTimer = setTimeout(redraw, 100);
+            }
+        } else {
+            console.log(new Date().toISOString() + ' ' + reply.name + ' ' + formatReply(reader, reply));
+        }
+    });
+    reader.on('error', (err: Error) => console.error(err.message));
+
+    names.forEach(name => reader.addPoller(name));
+    reader.startPolling(options.interval);
+    if (table) {
+        redraw();
+    }
+
+    return new Promise<void>(resolve => {
+        process.once('SIGINT', () => {
+            clearTimeout(redrawTimer);
+            resolve();
+        });
+    });
+}
+
+/**
+ * Runs the command of the arguments.
+ * @param {string[]} argv The arguments behind "obd".
+ * @return {Promise} The exit code.
+ */
+export function main(argv: string[]): Promise<number> {
+    let parsed: { words: string[], options: CliOptions };
+    try {
+        parsed = parseArgs(argv);
+    } catch (err) {
+        console.error(err.message + '\n\n' + usage);
+        return Promise.resolve(2);
+    }
+    const options = parsed.options;
+    const command = parsed.words[0];
+    const args = parsed.words.slice(1);
+
+    if (options.help || command === undefined) {
+        console.log(usage);
+        return Promise.resolve(options.help ? 0 : 2);
+    }
+    let run: (reader: OBDReader) => Promise<Output | void>;
+    switch (command) {
+        case 'scan':
+            run = scan;
+            break;
+        case 'pids':
+            run = pids;
+            break;
+        case 'watch':
+            run = reader => watch(reader, args, options);
+            break;
+        case 'dtc':
+            if (args[0] === 'read') {
+                run = readDTCs;
+            } else if (args[0] === 'clear') {
+                if (!options.yes) {
+                    console.error('Clearing also erases the freeze frames and resets the readiness monitors. Add --yes to clear.');
+                    return Promise.resolve(2);
+                }
+                run = clearDTCs;
+            }
+            break;
+        case 'raw':
+            if (args.length > 0) {
+                run = reader => raw(reader, args.join('').toUpperCase());
+            }
+            break;
+    }
+    if (!run) {
+        console.error('Unknown command "' + parsed.words.join(' ') + '"\n\n' + usage);
+        return Promise.resolve(2);
+    }
+
+    return connect(options).then(reader => {
+        return run(reader).then(output => {
+            if (output) {
+                console.log(options.json ? JSON.stringify(output.data, null, 2) : output.text);
+            }
+            return 0;
+        }, (err: Error) => {
+            console.error(err.message);
+            return 1;
+        }).then(code => disconnect(reader).then(() => code));
+    }, (err: Error) => {
+        console.error('Could not connect: ' + err.message);
+        return 1;
+    });
+}
+
+if (require.main === module) {
+    //Output piped into e.g. head, which stopped reading.
+    process.stdout.on('error', (err: any) => {
+        if (err.code === 'EPIPE') {
+            process.exit(0);
+        }
+    });
+    main(process.argv.slice(2)).then(code => process.exit(code));
+}
@@ -0,0 +1,244 @@
+import { EventEmitter } from 'events';
+
+import { RequestError } from './errors';
+
+/**
+ * Lower values are sent first. Commands with the same priority keep their order.
+ */
+export enum CommandPriority {
+    High = 0,
+    Normal = 1,
+    Low = 2
+}
+
+export interface ScheduledCommand {
+    /**
+     * The command as written to the adapter, including the trailing \r.
+     */
+    message: string;
+    priority: CommandPriority;
+    /**
+     * Time in ms to wait for the '>' prompt after writing the command.
+     */
+    timeout: number;
+    enqueuedAt?: number;
+    sentAt?: number;
+    resolve?: (lines: string[]) => void;
+    reject?: (err: Error) => void;
+}
+
+export interface SchedulerStats {
+    /**
+     * Commands waiting to be written.
+     */
+    queued: number;
+    sent: number;
+    completed: number;
+    timedOut: number;
+    /**
+     * Average time in ms between writing a command and receiving its prompt, over the last
+     * completed commands.
+     */
+    averageLatency: number;
+    maxLatency: number;
+    /**
+     * Completed commands per second over the last completed commands.
+     */
+    commandsPerSecond: number;
+}
+
+/**
+ * Number of completed commands the latency and throughput figures are based on.
+ */
+const statsWindow = 50;
+
+/**
+ * Sends one command at a time to the adapter. The next command is written as soon as the
+ * '>' prompt for the previous one arrives. After a timeout the adapter may still be working
+ * on the command, so the next one waits for that late prompt, which is discarded, or for
+ * another timeout.
+ *
+ * Emits:
+ *  - 'timeout'    (command: ScheduledCommand) No prompt arrived in time.
+ *  - 'writeError' (err: any, command: ScheduledCommand) The write function threw.
+ */
+export class CommandScheduler extends EventEmitter {
+    maxQueueLength = 256;
+
+    private queue: ScheduledCommand[] = [];
+    private pending: ScheduledCommand;
+    private pendingTimer: number;
+    /**
+     * Set after a timeout until the late prompt of the timed out command arrives.
+     */
+    private awaitingStrayPrompt = false;
+    private running = false;
+
+    private sent = 0;
+    private completed = 0;
+    private timedOut = 0;
+    private latencies: number[] = [];
+    private completionTimes: number[] = [];
+
+    /**
+     * @param {Function} write Writes a message to the adapter. May throw when the link is gone.
+     */
+    constructor(private write: (message: string) => void) {
+        super();
+    }
+
+    /**
+     * Starts writing queued commands.
+     */
+    start() {
+        this.running = true;
+        this.writeNext();
+    }
+
+    /**
+     * Stops writing and rejects every queued and pending command.
+     * @param {Error} reason Error the commands are rejected with.
+     */
+    stop(reason?: Error) {
+        this.running = false;
+        this.awaitingStrayPrompt = false;
+        clearTimeout(this.pendingTimer);
+
+        const dropped = this.pending ? [this.pending].concat(this.queue) : this.queue;
+        this.pending = undefined;
+        this.queue = [];
+        dropped.forEach(command => {
+            if (command.reject) {
+                command.reject(reason || new RequestError('Command cancelled: ' + command.message.trim(), 'CANCELLED', command.message.trim()));
+            }
+        });
+    }
+
+    /**
+     * Adds a command to the queue, behind every command of the same or higher priority.
+     * @return {boolean} false when the queue is full.
+     */
+    push(command: ScheduledCommand): boolean {
+        if (this.queue.length >= this.maxQueueLength) {
+            return false;
+        }
+
+        command.enqueuedAt = Date.now();
+        let index = this.queue.length;
+        while (index > 0 && this.queue[index - 1].priority > command.priority) {
+            index--;
+        }
+        this.queue.splice(index, 0, command);
+        this.writeNext();
+        return true;
+    }
+
+    /**
+     * Hands the lines received before a prompt to the command that was waiting for them.
+     * @param {string[]} lines Lines received since the previous prompt.
+     */
+    onPrompt(lines: string[]) {
+        if (this.awaitingStrayPrompt) {
+            //Answer to the timed out command, it must not resolve the next one.
+            clearTimeout(this.pendingTimer);
+            this.awaitingStrayPrompt = false;
+            this.writeNext();
+            return;
+        }
+        const command = this.pending;
+        if (!command) {
+            return;
+        }
+        clearTimeout(this.pendingTimer);
+        this.pending = undefined;
+
+        const now = Date.now();
+        this.completed++;
+        this.record(this.latencies, now - command.sentAt);
+        this.record(this.completionTimes, now);
+
+        if (command.resolve) {
+            command.resolve(lines);
+        }
+        this.writeNext();
+    }
+
+    /**
+     * Whether a command is written and waiting for its prompt.
+     */
+    isBusy() {
+        return !!this.pending;
+    }
+
+    /**
+     * Number of commands waiting to be written.
+     * @param {CommandPriority} priority Only count commands with this priority.
+     */
+    queueLength(priority?: CommandPriority) {
+        if (priority === undefined) {
+            return this.queue.length;
+        }
+        return this.queue.filter(command => command.priority === priority).length;
+    }
+
+    getStats(): SchedulerStats {
+        const latencySum = this.latencies.reduce((sum, latency) => sum + latency, 0);
+        const first = this.completionTimes[0];
+        const last = this.completionTimes[this.completionTimes.length - 1];
+
+        return {
+            queued: this.queue.length,
+            sent: this.sent,
+            completed: this.completed,
+            timedOut: this.timedOut,
+            averageLatency: this.latencies.length ? latencySum / this.latencies.length : 0,
+            maxLatency: this.latencies.length ? Math.max.apply(null, this.latencies) : 0,
+            commandsPerSecond: last > first ? (this.completionTimes.length - 1) * 1000 / (last - first) : 0
+        };
+    }
+
+    private writeNext() {
+        if (!this.running || this.pending || this.awaitingStrayPrompt || this.queue.length === 0) {
+            return;
+        }
+
+        const command = this.queue.shift();
+        this.pending = command;
+        command.sentAt = Date.now();
+        this.sent++;
+
+        this.pendingTimer = setTimeout(() => {
+            this.pending = undefined;
+            this.timedOut++;
+            //Writing to a busy ELM327 would abort the command with STOPPED.
+            this.awaitingStrayPrompt = true;
+            this.pendingTimer = setTimeout(() => {
+                //The prompt got lost, or the adapter is gone, see the 'timeout' event.
+                this.awaitingStrayPrompt = false;
+                this.writeNext();
+            }, command.timeout) as any as number;
+            this.emit('timeout', command);
+            if (command.reject) {
+                command.reject(new RequestError('Timeout waiting for response to ' + command.message.trim(), 'TIMEOUT', command.message.trim()));
+            }
+        }, command.timeout) as any as number;
+
+        try {
+            this.write(command.message);
+        } catch (err) {
+            clearTimeout(this.pendingTimer);
+            this.pending = undefined;
+            if (command.reject) {
+                command.reject(err);
+            }
+            this.emit('writeError', err, command);
+        }
+    }
+
+    private record(values: number[], value: number) {
+        values.push(value);
+        if (values.length > statsWindow) {
+            values.shift();
+        }
+    }
+}
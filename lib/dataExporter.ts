@@ -0,0 +1,286 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+
+import { OBDReader, OBDReply } from './obd';
+import { pidRegistry, decodePid, PidDefinition } from './pidRegistry';
+import { applyUnitProfile, unitProfiles, units, Unit } from './units';
+
+export type ExportFormat = 'csv' | 'influx';
+
+export interface ExportOptions {
+    /**
+     * Defaults to 'csv'.
+     */
+    format?: ExportFormat;
+    /**
+     * Whether to export values in the units of OBDReader.unitProfile instead of the
+     * canonical (metric) units. Defaults to false.
+     */
+    converted?: boolean;
+    /**
+     * CSV column separator. Defaults to ",".
+     */
+    delimiter?: string;
+    /**
+     * InfluxDB measurement name. Defaults to "obd".
+     */
+    measurement?: string;
+    /**
+     * InfluxDB tags added to every line, e.g. { vehicle: 'WVWZZZ1KZAW000001' }.
+     */
+    tags?: { [tag: string]: string };
+    /**
+     * Only export replies of this ECU, e.g. "7E8". Needs headers on. Without it, the first
+     * ECU that answers a PID is used.
+     */
+    ecu?: string;
+}
+
+/**
+ * Anything export lines can be written to, e.g. process.stdout.
+ */
+export interface ExportOutput {
+    write(chunk: string): any;
+    end?(): any;
+}
+
+/**
+ * One exported value: a PID, or a property of a PID with an object value.
+ */
+interface Column {
+    name: string;
+    pid: string;
+    /**
+     * Path to the value in the reply, e.g. ["bank1"] for "s02b13.bank1".
+     */
+    path: string[];
+    unit: Unit;
+}
+
+/**
+ * Writes polled data as CSV or InfluxDB line protocol, one row per polling cycle.
+ *
+ * The columns are fixed when export starts: a timestamp, then one column per active poller
+ * (see OBDReader.addPoller()). PIDs with object values, like the lambda PIDs'
+ * { ratio, voltage } or { ratio, current }, get one sub-column per property
+ * ("lambda11.ratio", "lambdac11.current"). A row is written once every PID answered, or when
+ * a PID answers a second time because the next cycle began.
+ *
+ *     const exporter = new DataExporter(reader, 'trip.csv');
+ *     exporter.start();
+ *
+ * Emits 'error' (err: any) when the output fails.
+ */
+export class DataExporter extends EventEmitter {
+    private output: ExportOutput;
+    private ownsOutput = false;
+    private columns: Column[] = [];
+    private pids: string[] = [];
+    private row: { [name: string]: OBDReply } = {};
+    private rowTime: number;
+    private listener = (reply: OBDReply) => this.onReply(reply);
+
+    /**
+     * @param {OBDReader} reader The reader whose polled replies are exported.
+     * @param {string|ExportOutput} output File path, or a writable stream.
+     * @param {ExportOptions} options
+     */
+    constructor(private reader: OBDReader, output: string | ExportOutput, private options: ExportOptions = {}) {
+        super();
+        if (typeof output === 'string') {
+            const stream = fs.createWriteStream(output);
+            stream.on('error', (err: any) => this.emit('error', err));
+            this.output = stream;
+            this.ownsOutput = true;
+        } else {
+            this.output = output;
+        }
+    }
+
+    /**
+     * Fixes the columns from the active pollers and starts exporting. Writes the CSV header.
+     */
+    start() {
+        this.pids = [];
+        this.columns = [];
+        this.reader.activePollers.forEach(command => {
+            const definition = pidRegistry.getByCommand(command);
+            if (definition && this.pids.indexOf(definition.name) === -1) {
+                this.pids.push(definition.name);
+                this.columns = this.columns.concat(this.columnsOf(definition));
+            }
+        });
+
+        if (this.format() === 'csv') {
+            const header = ['timestamp'].concat(this.columns.map(column => column.unit && units[column.unit] && units[column.unit].symbol ?
+                column.name + ' (' + units[column.unit].symbol + ')' :
+                column.name));
+            this.write(header.map(cell => this.csvCell(cell)).join(this.delimiter()));
+        }
+        this.reader.on('dataReceived', this.listener);
+    }
+
+    /**
+     * Writes the pending row and stops exporting. Closes the file if the exporter opened it.
+     */
+    stop() {
+        this.reader.removeListener('dataReceived', this.listener);
+        this.flush();
+        if (this.ownsOutput && this.output.end) {
+            this.output.end();
+        }
+    }
+
+    private onReply(reply: OBDReply) {
+        if (this.pids.indexOf(reply.name) === -1 || reply.value === undefined) {
+            return;
+        }
+        if (reply.kind === 'pid' && reply.frame !== undefined) {
+            return; //Freeze frame (mode 02), not live data.
+        }
+        const current = this.row[reply.name];
+        if (this.options.ecu !== undefined ? reply.ecu !== this.options.ecu : current && current.ecu !== reply.ecu) {
+            return;
+        }
+
+        if (current) {
+            this.flush(); //Next polling cycle.
+        }
+        if (this.rowTime === undefined) {
+            this.rowTime = Date.now();
+        }
+        this.row[reply.name] = reply;
+        if (this.pids.every(name => this.row[name] !== undefined)) {
+            this.flush();
+        }
+    }
+
+    private flush() {
+        if (this.rowTime === undefined) {
+            return;
+        }
+        const values = this.columns.map(column => {
+            const reply = this.row[column.pid];
+            if (!reply) {
+                return undefined;
+            }
+            let value = this.options.converted && reply.kind === 'pid' && reply.converted ? reply.converted.value : reply.value;
+            column.path.forEach(key => value = value !== undefined && value !== null ? value[key] : undefined);
+            return value;
+        });
+
+        if (this.format() === 'csv') {
+            const cells = [new Date(this.rowTime).toISOString()].concat(values.map(value => this.csvCell(value)));
+            this.write(cells.join(this.delimiter()));
+        } else {
+            this.writeInfluxLine(values);
+        }
+        this.row = {};
+        this.rowTime = undefined;
+    }
+
+    private writeInfluxLine(values: any[]) {
+        const fields: string[] = [];
+        values.forEach((value, index) => {
+            if (value === undefined || value === null) {
+                return;
+            }
+            let field: string;
+            if (typeof value === 'number') {
+                field = isFinite(value) ? String(value) : undefined;
+            } else if (typeof value === 'boolean') {
+                field = String(value);
+            } else {
+                field = '"' + stringValue(value).replace(/["\\]/g, '\\$&') + '"';
+            }
+            if (field !== undefined) {
+                fields.push(influxKey(this.columns[index].name) + '=' + field);
+            }
+        });
+        if (fields.length === 0) {
+            return;
+        }
+
+        const tags = this.options.tags || {};
+        const series = [influxKey(this.options.measurement || 'obd', true)]
+            .concat(Object.keys(tags).sort().map(tag => influxKey(tag) + '=' + influxKey(tags[tag])))
+            .join(',');
+        //Nanoseconds. Appending the zeros keeps the precision a multiplication would lose.
+        this.write(series + ' ' + fields.join(',') + ' ' + this.rowTime + '000000');
+    }
+
+    /**
+     * Works out the columns of a PID by decoding all-zero data: the shape of the value
+     * doesn't depend on the data.
+     */
+    private columnsOf(definition: PidDefinition): Column[] {
+        const zeros: string[] = [];
+        for (let i = 0; i < definition.bytes; i++) {
+            zeros.push('00');
+        }
+        const sample = decodePid(definition, zeros);
+        const converted = definition.unit && this.options.converted ?
+            applyUnitProfile(sample, definition.unit, this.reader.unitProfile || unitProfiles.metric, definition.name, definition.fieldUnits) :
+            undefined;
+        const fieldUnits = converted ? converted.fieldUnits || {} : definition.fieldUnits || {};
+        const unit = converted ? converted.unit : definition.unit;
+
+        const columns: Column[] = [];
+        const addColumns = (value: any, path: string[], columnUnit: Unit) => {
+            if (value && typeof value === 'object' && !Array.isArray(value)) {
+                Object.keys(value).forEach(key => addColumns(value[key], path.concat([key]), fieldUnits[key] || columnUnit));
+            } else {
+                columns.push({ name: [definition.name].concat(path).join('.'), pid: definition.name, path: path, unit: columnUnit });
+            }
+        };
+        addColumns(sample, [], unit);
+        return columns;
+    }
+
+    private csvCell(value: any): string {
+        if (value === undefined || value === null) {
+            return '';
+        }
+        const text = stringValue(value);
+        if (text.indexOf(this.delimiter()) !== -1 || /["\r\n]/.test(text)) {
+            return '"' + text.replace(/"/g, '""') + '"';
+        }
+        return text;
+    }
+
+    private write(line: string) {
+        try {
+            this.output.write(line + '\n');
+        } catch (err) {
+            this.emit('error', err);
+        }
+    }
+
+    private format(): ExportFormat {
+        return this.options.format || 'csv';
+    }
+
+    private delimiter() {
+        return this.options.delimiter || ',';
+    }
+}
+
+/**
+ * Bit-encoded arrays are written as their elements separated by spaces, objects as JSON.
+ */
+function stringValue(value: any): string {
+    if (Array.isArray(value)) {
+        return value.map(item => typeof item === 'boolean' ? (item ? 1 : 0) : item).join(' ');
+    }
+    if (value && typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}
+
+/**
+ * Escapes a measurement name, tag or field key of the InfluxDB line protocol.
+ */
+function influxKey(key: string, measurement = false) {
+    return key.replace(measurement ? /[, ]/g : /[,= ]/g, '\\$&');
+}
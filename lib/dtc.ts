@@ -0,0 +1,79 @@
+'use strict';
+
+import { describeDTC } from './dtcDescriptions';
+import { ResponseMessage } from './responseAssembler';
+
+export interface DiagnosticTroubleCode {
+    /**
+     * The five character code, e.g. "P0133".
+     */
+    code: string;
+    /**
+     * SAE J2012 description. Undefined for manufacturer specific codes.
+     */
+    description: string;
+    /**
+     * Address of the ECU that reported the code. --! Only with headers on.
+     */
+    ecu?: string;
+}
+
+/**
+ * Decodes the two bytes of a trouble code.
+ * @param {string} byte1 First byte in hexadecimal ASCII.
+ * @param {string} byte2 Second byte in hexadecimal ASCII.
+ * @return {string} The code, or '-' if both bytes are 00 (padding).
+ */
+export function decodeDTCCode(byte1: string, byte2: string) {
+    //If 00 00 --> No code.
+    if ((byte1 === '00') && (byte2 === '00')) {
+        return '-';
+    }
+
+    const firstByte = parseInt(byte1, 16);
+    const firstChar = 'PCBU'.charAt(firstByte >> 6);
+    const secondChar = (firstByte >> 4) % 4;
+    const thirdChar = (firstByte % 16).toString(16).toUpperCase();
+    return firstChar + secondChar + thirdChar + byte2.toUpperCase();
+}
+
+/**
+ * Decodes the data bytes of a mode 03, 07 or 0A response (everything after the mode byte).
+ *
+ * CAN responses start with the number of codes, so they always have an odd number of
+ * bytes. Legacy protocols send three codes per message, padded with 00 00, and no count.
+ * @param {string[]} bytes Data bytes in hexadecimal ASCII.
+ * @return {DiagnosticTroubleCode[]} The codes, without padding.
+ */
+export function convertDTCRequest(...bytes: string[]): DiagnosticTroubleCode[] {
+    const codes: DiagnosticTroubleCode[] = [];
+    const start = bytes.length % 2;
+
+    for (let i = start; i + 1 < bytes.length; i += 2) {
+        const code = decodeDTCCode(bytes[i], bytes[i + 1]);
+        if (code !== '-') {
+            codes.push({ code: code, description: describeDTC(code) });
+        }
+    }
+    return codes;
+}
+
+/**
+ * Decodes all trouble codes in the response to a mode 03, 07 or 0A request, across
+ * multiple messages and ECUs.
+ * @param {string} responseMode The expected response mode, e.g. "43".
+ * @param {ResponseMessage[]} messages The assembled response, see assembleResponse().
+ */
+export function decodeDTCResponse(responseMode: string, messages: ResponseMessage[]): DiagnosticTroubleCode[] {
+    let codes: DiagnosticTroubleCode[] = [];
+    messages.forEach(message => {
+        if (message.data.substr(0, 2) === responseMode) {
+            const messageCodes: DiagnosticTroubleCode[] = convertDTCRequest.apply(null, message.data.substr(2).match(/../g) || []);
+            if (message.ecu !== undefined) {
+                messageCodes.forEach(code => code.ecu = message.ecu);
+            }
+            codes = codes.concat(messageCodes);
+        }
+    });
+    return codes;
+}
@@ -0,0 +1,343 @@
+'use strict';
+
+/**
+ * Descriptions of generic (SAE J2012) diagnostic trouble codes.
+ * Codes that aren't listed fall back to the description of their range, see rangeDescriptions.
+ */
+const dtcDescriptions: { [code: string]: string } = {
+    //Fuel and air metering and auxiliary emission controls
+    P0010: "Intake Camshaft Position Actuator Circuit (Bank 1)",
+    P0011: "Intake Camshaft Position Timing - Over-Advanced or System Performance (Bank 1)",
+    P0012: "Intake Camshaft Position Timing - Over-Retarded (Bank 1)",
+    P0013: "Exhaust Camshaft Position Actuator Circuit (Bank 1)",
+    P0014: "Exhaust Camshaft Position Timing - Over-Advanced or System Performance (Bank 1)",
+    P0015: "Exhaust Camshaft Position Timing - Over-Retarded (Bank 1)",
+    P0016: "Crankshaft Position - Camshaft Position Correlation (Bank 1 Sensor A)",
+    P0017: "Crankshaft Position - Camshaft Position Correlation (Bank 1 Sensor B)",
+    P0018: "Crankshaft Position - Camshaft Position Correlation (Bank 2 Sensor A)",
+    P0019: "Crankshaft Position - Camshaft Position Correlation (Bank 2 Sensor B)",
+    P0020: "Intake Camshaft Position Actuator Circuit (Bank 2)",
+    P0021: "Intake Camshaft Position Timing - Over-Advanced or System Performance (Bank 2)",
+    P0022: "Intake Camshaft Position Timing - Over-Retarded (Bank 2)",
+    P0030: "HO2S Heater Control Circuit (Bank 1 Sensor 1)",
+    P0031: "HO2S Heater Control Circuit Low (Bank 1 Sensor 1)",
+    P0032: "HO2S Heater Control Circuit High (Bank 1 Sensor 1)",
+    P0036: "HO2S Heater Control Circuit (Bank 1 Sensor 2)",
+    P0037: "HO2S Heater Control Circuit Low (Bank 1 Sensor 2)",
+    P0038: "HO2S Heater Control Circuit High (Bank 1 Sensor 2)",
+    P0050: "HO2S Heater Control Circuit (Bank 2 Sensor 1)",
+    P0051: "HO2S Heater Control Circuit Low (Bank 2 Sensor 1)",
+    P0052: "HO2S Heater Control Circuit High (Bank 2 Sensor 1)",
+    P0056: "HO2S Heater Control Circuit (Bank 2 Sensor 2)",
+    P0057: "HO2S Heater Control Circuit Low (Bank 2 Sensor 2)",
+    P0058: "HO2S Heater Control Circuit High (Bank 2 Sensor 2)",
+    P0068: "MAP/MAF - Throttle Position Correlation",
+    P0087: "Fuel Rail/System Pressure - Too Low",
+    P0088: "Fuel Rail/System Pressure - Too High",
+    P0089: "Fuel Pressure Regulator 1 Performance",
+    P0100: "Mass or Volume Air Flow Circuit",
+    P0101: "Mass or Volume Air Flow Circuit Range/Performance",
+    P0102: "Mass or Volume Air Flow Circuit Low Input",
+    P0103: "Mass or Volume Air Flow Circuit High Input",
+    P0104: "Mass or Volume Air Flow Circuit Intermittent",
+    P0105: "Manifold Absolute Pressure/Barometric Pressure Circuit",
+    P0106: "Manifold Absolute Pressure/Barometric Pressure Circuit Range/Performance",
+    P0107: "Manifold Absolute Pressure/Barometric Pressure Circuit Low Input",
+    P0108: "Manifold Absolute Pressure/Barometric Pressure Circuit High Input",
+    P0109: "Manifold Absolute Pressure/Barometric Pressure Circuit Intermittent",
+    P0110: "Intake Air Temperature Circuit",
+    P0111: "Intake Air Temperature Circuit Range/Performance",
+    P0112: "Intake Air Temperature Circuit Low Input",
+    P0113: "Intake Air Temperature Circuit High Input",
+    P0114: "Intake Air Temperature Circuit Intermittent",
+    P0115: "Engine Coolant Temperature Circuit",
+    P0116: "Engine Coolant Temperature Circuit Range/Performance",
+    P0117: "Engine Coolant Temperature Circuit Low Input",
+    P0118: "Engine Coolant Temperature Circuit High Input",
+    P0119: "Engine Coolant Temperature Circuit Intermittent",
+    P0120: "Throttle/Pedal Position Sensor/Switch A Circuit",
+    P0121: "Throttle/Pedal Position Sensor/Switch A Circuit Range/Performance",
+    P0122: "Throttle/Pedal Position Sensor/Switch A Circuit Low Input",
+    P0123: "Throttle/Pedal Position Sensor/Switch A Circuit High Input",
+    P0124: "Throttle/Pedal Position Sensor/Switch A Circuit Intermittent",
+    P0125: "Insufficient Coolant Temperature for Closed Loop Fuel Control",
+    P0126: "Insufficient Coolant Temperature for Stable Operation",
+    P0127: "Intake Air Temperature Too High",
+    P0128: "Coolant Thermostat (Coolant Temperature Below Thermostat Regulating Temperature)",
+    P0130: "O2 Sensor Circuit (Bank 1 Sensor 1)",
+    P0131: "O2 Sensor Circuit Low Voltage (Bank 1 Sensor 1)",
+    P0132: "O2 Sensor Circuit High Voltage (Bank 1 Sensor 1)",
+    P0133: "O2 Sensor Circuit Slow Response (Bank 1 Sensor 1)",
+    P0134: "O2 Sensor Circuit No Activity Detected (Bank 1 Sensor 1)",
+    P0135: "O2 Sensor Heater Circuit (Bank 1 Sensor 1)",
+    P0136: "O2 Sensor Circuit (Bank 1 Sensor 2)",
+    P0137: "O2 Sensor Circuit Low Voltage (Bank 1 Sensor 2)",
+    P0138: "O2 Sensor Circuit High Voltage (Bank 1 Sensor 2)",
+    P0139: "O2 Sensor Circuit Slow Response (Bank 1 Sensor 2)",
+    P0140: "O2 Sensor Circuit No Activity Detected (Bank 1 Sensor 2)",
+    P0141: "O2 Sensor Heater Circuit (Bank 1 Sensor 2)",
+    P0142: "O2 Sensor Circuit (Bank 1 Sensor 3)",
+    P0143: "O2 Sensor Circuit Low Voltage (Bank 1 Sensor 3)",
+    P0144: "O2 Sensor Circuit High Voltage (Bank 1 Sensor 3)",
+    P0145: "O2 Sensor Circuit Slow Response (Bank 1 Sensor 3)",
+    P0146: "O2 Sensor Circuit No Activity Detected (Bank 1 Sensor 3)",
+    P0147: "O2 Sensor Heater Circuit (Bank 1 Sensor 3)",
+    P0150: "O2 Sensor Circuit (Bank 2 Sensor 1)",
+    P0151: "O2 Sensor Circuit Low Voltage (Bank 2 Sensor 1)",
+    P0152: "O2 Sensor Circuit High Voltage (Bank 2 Sensor 1)",
+    P0153: "O2 Sensor Circuit Slow Response (Bank 2 Sensor 1)",
+    P0154: "O2 Sensor Circuit No Activity Detected (Bank 2 Sensor 1)",
+    P0155: "O2 Sensor Heater Circuit (Bank 2 Sensor 1)",
+    P0156: "O2 Sensor Circuit (Bank 2 Sensor 2)",
+    P0157: "O2 Sensor Circuit Low Voltage (Bank 2 Sensor 2)",
+    P0158: "O2 Sensor Circuit High Voltage (Bank 2 Sensor 2)",
+    P0159: "O2 Sensor Circuit Slow Response (Bank 2 Sensor 2)",
+    P0160: "O2 Sensor Circuit No Activity Detected (Bank 2 Sensor 2)",
+    P0161: "O2 Sensor Heater Circuit (Bank 2 Sensor 2)",
+    P0170: "Fuel Trim (Bank 1)",
+    P0171: "System Too Lean (Bank 1)",
+    P0172: "System Too Rich (Bank 1)",
+    P0173: "Fuel Trim (Bank 2)",
+    P0174: "System Too Lean (Bank 2)",
+    P0175: "System Too Rich (Bank 2)",
+    P0176: "Fuel Composition Sensor Circuit",
+    P0180: "Fuel Temperature Sensor A Circuit",
+    P0190: "Fuel Rail Pressure Sensor Circuit",
+    P0191: "Fuel Rail Pressure Sensor Circuit Range/Performance",
+    P0192: "Fuel Rail Pressure Sensor Circuit Low Input",
+    P0193: "Fuel Rail Pressure Sensor Circuit High Input",
+    P0200: "Injector Circuit",
+    P0201: "Injector Circuit - Cylinder 1",
+    P0202: "Injector Circuit - Cylinder 2",
+    P0203: "Injector Circuit - Cylinder 3",
+    P0204: "Injector Circuit - Cylinder 4",
+    P0205: "Injector Circuit - Cylinder 5",
+    P0206: "Injector Circuit - Cylinder 6",
+    P0207: "Injector Circuit - Cylinder 7",
+    P0208: "Injector Circuit - Cylinder 8",
+    P0217: "Engine Coolant Over Temperature Condition",
+    P0218: "Transmission Fluid Over Temperature Condition",
+    P0219: "Engine Overspeed Condition",
+    P0220: "Throttle/Pedal Position Sensor/Switch B Circuit",
+    P0221: "Throttle/Pedal Position Sensor/Switch B Circuit Range/Performance",
+    P0222: "Throttle/Pedal Position Sensor/Switch B Circuit Low Input",
+    P0223: "Throttle/Pedal Position Sensor/Switch B Circuit High Input",
+    P0230: "Fuel Pump Primary Circuit",
+    P0234: "Turbocharger/Supercharger A Overboost Condition",
+    P0299: "Turbocharger/Supercharger A Underboost Condition",
+    //Ignition system or misfire
+    P0300: "Random/Multiple Cylinder Misfire Detected",
+    P0301: "Cylinder 1 Misfire Detected",
+    P0302: "Cylinder 2 Misfire Detected",
+    P0303: "Cylinder 3 Misfire Detected",
+    P0304: "Cylinder 4 Misfire Detected",
+    P0305: "Cylinder 5 Misfire Detected",
+    P0306: "Cylinder 6 Misfire Detected",
+    P0307: "Cylinder 7 Misfire Detected",
+    P0308: "Cylinder 8 Misfire Detected",
+    P0309: "Cylinder 9 Misfire Detected",
+    P0310: "Cylinder 10 Misfire Detected",
+    P0311: "Cylinder 11 Misfire Detected",
+    P0312: "Cylinder 12 Misfire Detected",
+    P0313: "Misfire Detected with Low Fuel",
+    P0314: "Single Cylinder Misfire (Cylinder not Specified)",
+    P0325: "Knock Sensor 1 Circuit (Bank 1 or Single Sensor)",
+    P0326: "Knock Sensor 1 Circuit Range/Performance (Bank 1 or Single Sensor)",
+    P0327: "Knock Sensor 1 Circuit Low (Bank 1 or Single Sensor)",
+    P0328: "Knock Sensor 1 Circuit High (Bank 1 or Single Sensor)",
+    P0330: "Knock Sensor 2 Circuit (Bank 2)",
+    P0335: "Crankshaft Position Sensor A Circuit",
+    P0336: "Crankshaft Position Sensor A Circuit Range/Performance",
+    P0337: "Crankshaft Position Sensor A Circuit Low",
+    P0338: "Crankshaft Position Sensor A Circuit High",
+    P0339: "Crankshaft Position Sensor A Circuit Intermittent",
+    P0340: "Camshaft Position Sensor A Circuit (Bank 1 or Single Sensor)",
+    P0341: "Camshaft Position Sensor A Circuit Range/Performance (Bank 1 or Single Sensor)",
+    P0342: "Camshaft Position Sensor A Circuit Low (Bank 1 or Single Sensor)",
+    P0343: "Camshaft Position Sensor A Circuit High (Bank 1 or Single Sensor)",
+    P0345: "Camshaft Position Sensor A Circuit (Bank 2)",
+    P0351: "Ignition Coil A Primary/Secondary Circuit",
+    P0352: "Ignition Coil B Primary/Secondary Circuit",
+    P0353: "Ignition Coil C Primary/Secondary Circuit",
+    P0354: "Ignition Coil D Primary/Secondary Circuit",
+    P0355: "Ignition Coil E Primary/Secondary Circuit",
+    P0356: "Ignition Coil F Primary/Secondary Circuit",
+    P0357: "Ignition Coil G Primary/Secondary Circuit",
+    P0358: "Ignition Coil H Primary/Secondary Circuit",
+    P0380: "Glow Plug/Heater Circuit A",
+    //Auxiliary emission controls
+    P0400: "Exhaust Gas Recirculation Flow",
+    P0401: "Exhaust Gas Recirculation Flow Insufficient Detected",
+    P0402: "Exhaust Gas Recirculation Flow Excessive Detected",
+    P0403: "Exhaust Gas Recirculation Control Circuit",
+    P0404: "Exhaust Gas Recirculation Control Circuit Range/Performance",
+    P0405: "Exhaust Gas Recirculation Sensor A Circuit Low",
+    P0406: "Exhaust Gas Recirculation Sensor A Circuit High",
+    P0410: "Secondary Air Injection System",
+    P0411: "Secondary Air Injection System Incorrect Flow Detected",
+    P0412: "Secondary Air Injection System Switching Valve A Circuit",
+    P0420: "Catalyst System Efficiency Below Threshold (Bank 1)",
+    P0421: "Warm Up Catalyst Efficiency Below Threshold (Bank 1)",
+    P0430: "Catalyst System Efficiency Below Threshold (Bank 2)",
+    P0431: "Warm Up Catalyst Efficiency Below Threshold (Bank 2)",
+    P0440: "Evaporative Emission System",
+    P0441: "Evaporative Emission System Incorrect Purge Flow",
+    P0442: "Evaporative Emission System Leak Detected (Small Leak)",
+    P0443: "Evaporative Emission System Purge Control Valve Circuit",
+    P0446: "Evaporative Emission System Vent Control Circuit",
+    P0449: "Evaporative Emission System Vent Valve/Solenoid Circuit",
+    P0451: "Evaporative Emission System Pressure Sensor/Switch Range/Performance",
+    P0452: "Evaporative Emission System Pressure Sensor/Switch Low",
+    P0453: "Evaporative Emission System Pressure Sensor/Switch High",
+    P0455: "Evaporative Emission System Leak Detected (Large Leak)",
+    P0456: "Evaporative Emission System Leak Detected (Very Small Leak)",
+    P0457: "Evaporative Emission System Leak Detected (Fuel Cap Loose/Off)",
+    P0460: "Fuel Level Sensor A Circuit",
+    P0461: "Fuel Level Sensor A Circuit Range/Performance",
+    P0462: "Fuel Level Sensor A Circuit Low",
+    P0463: "Fuel Level Sensor A Circuit High",
+    P0480: "Fan 1 Control Circuit",
+    P0481: "Fan 2 Control Circuit",
+    P0496: "Evaporative Emission System High Purge Flow",
+    //Vehicle speed controls and idle control system
+    P0500: "Vehicle Speed Sensor A",
+    P0501: "Vehicle Speed Sensor A Range/Performance",
+    P0502: "Vehicle Speed Sensor A Circuit Low Input",
+    P0503: "Vehicle Speed Sensor A Intermittent/Erratic/High",
+    P0505: "Idle Air Control System",
+    P0506: "Idle Air Control System RPM Lower Than Expected",
+    P0507: "Idle Air Control System RPM Higher Than Expected",
+    P0520: "Engine Oil Pressure Sensor/Switch A Circuit",
+    P0530: "A/C Refrigerant Pressure Sensor A Circuit",
+    P0550: "Power Steering Pressure Sensor/Switch Circuit",
+    P0560: "System Voltage",
+    P0562: "System Voltage Low",
+    P0563: "System Voltage High",
+    P0571: "Brake Switch A Circuit",
+    //Computer output circuit
+    P0600: "Serial Communication Link",
+    P0601: "Internal Control Module Memory Check Sum Error",
+    P0602: "Control Module Programming Error",
+    P0603: "Internal Control Module Keep Alive Memory (KAM) Error",
+    P0604: "Internal Control Module Random Access Memory (RAM) Error",
+    P0605: "Internal Control Module Read Only Memory (ROM) Error",
+    P0606: "Control Module Processor",
+    P0607: "Control Module Performance",
+    P0620: "Generator Control Circuit",
+    P0627: "Fuel Pump A Control Circuit/Open",
+    P0641: "Sensor Reference Voltage A Circuit/Open",
+    P0650: "Malfunction Indicator Lamp (MIL) Control Circuit",
+    P0651: "Sensor Reference Voltage B Circuit/Open",
+    //Transmission
+    P0700: "Transmission Control System (MIL Request)",
+    P0701: "Transmission Control System Range/Performance",
+    P0705: "Transmission Range Sensor A Circuit (PRNDL Input)",
+    P0706: "Transmission Range Sensor A Circuit Range/Performance",
+    P0710: "Transmission Fluid Temperature Sensor A Circuit",
+    P0711: "Transmission Fluid Temperature Sensor A Circuit Range/Performance",
+    P0715: "Input/Turbine Speed Sensor A Circuit",
+    P0720: "Output Speed Sensor Circuit",
+    P0725: "Engine Speed Input Circuit",
+    P0730: "Incorrect Gear Ratio",
+    P0731: "Gear 1 Incorrect Ratio",
+    P0732: "Gear 2 Incorrect Ratio",
+    P0733: "Gear 3 Incorrect Ratio",
+    P0734: "Gear 4 Incorrect Ratio",
+    P0735: "Gear 5 Incorrect Ratio",
+    P0740: "Torque Converter Clutch Solenoid Circuit/Open",
+    P0741: "Torque Converter Clutch Solenoid Circuit Performance/Stuck Off",
+    P0750: "Shift Solenoid A",
+    P0755: "Shift Solenoid B",
+    P0760: "Shift Solenoid C",
+    P0765: "Shift Solenoid D",
+    P0770: "Shift Solenoid E",
+    //Hybrid propulsion
+    P0A80: "Replace Hybrid Battery Pack",
+    //Fuel and air metering and auxiliary emission controls (P2xxx)
+    P2002: "Diesel Particulate Filter Efficiency Below Threshold (Bank 1)",
+    P2096: "Post Catalyst Fuel Trim System Too Lean (Bank 1)",
+    P2097: "Post Catalyst Fuel Trim System Too Rich (Bank 1)",
+    P2098: "Post Catalyst Fuel Trim System Too Lean (Bank 2)",
+    P2099: "Post Catalyst Fuel Trim System Too Rich (Bank 2)",
+    P2101: "Throttle Actuator A Control Motor Circuit Range/Performance",
+    P2135: "Throttle/Pedal Position Sensor/Switch A/B Voltage Correlation",
+    P2138: "Throttle/Pedal Position Sensor/Switch D/E Voltage Correlation",
+    P2187: "System Too Lean at Idle (Bank 1)",
+    P2188: "System Too Rich at Idle (Bank 1)",
+    P2189: "System Too Lean at Idle (Bank 2)",
+    P2190: "System Too Rich at Idle (Bank 2)",
+    P2195: "O2 Sensor Signal Biased/Stuck Lean (Bank 1 Sensor 1)",
+    P2196: "O2 Sensor Signal Biased/Stuck Rich (Bank 1 Sensor 1)",
+    P2197: "O2 Sensor Signal Biased/Stuck Lean (Bank 2 Sensor 1)",
+    P2198: "O2 Sensor Signal Biased/Stuck Rich (Bank 2 Sensor 1)",
+    P2270: "O2 Sensor Signal Biased/Stuck Lean (Bank 1 Sensor 2)",
+    P2271: "O2 Sensor Signal Biased/Stuck Rich (Bank 1 Sensor 2)",
+    P2272: "O2 Sensor Signal Biased/Stuck Lean (Bank 2 Sensor 2)",
+    P2273: "O2 Sensor Signal Biased/Stuck Rich (Bank 2 Sensor 2)",
+    P2263: "Turbocharger/Supercharger Boost System Performance",
+    P2440: "Secondary Air Injection System Switching Valve Stuck Open (Bank 1)",
+    //Chassis
+    C0035: "Left Front Wheel Speed Sensor Circuit",
+    C0040: "Right Front Wheel Speed Sensor Circuit",
+    C0045: "Left Rear Wheel Speed Sensor Circuit",
+    C0050: "Right Rear Wheel Speed Sensor Circuit",
+    //Network
+    U0001: "High Speed CAN Communication Bus",
+    U0073: "Control Module Communication Bus A Off",
+    U0100: "Lost Communication With ECM/PCM A",
+    U0101: "Lost Communication With TCM",
+    U0121: "Lost Communication With Anti-Lock Brake System (ABS) Control Module",
+    U0140: "Lost Communication With Body Control Module",
+    U0151: "Lost Communication With Restraints Control Module",
+    U0155: "Lost Communication With Instrument Panel Cluster (IPC) Control Module"
+};
+
+/**
+ * Descriptions of the generic code ranges, by the first three characters of the code.
+ */
+const rangeDescriptions: { [prefix: string]: string } = {
+    P00: "Fuel and air metering and auxiliary emission controls",
+    P01: "Fuel and air metering",
+    P02: "Fuel and air metering (injector circuit)",
+    P03: "Ignition system or misfire",
+    P04: "Auxiliary emission controls",
+    P05: "Vehicle speed controls and idle control system",
+    P06: "Computer output circuit",
+    P07: "Transmission",
+    P08: "Transmission",
+    P09: "Transmission",
+    P0A: "Hybrid propulsion",
+    P0B: "Hybrid propulsion",
+    P0C: "Hybrid propulsion",
+    P20: "Fuel and air metering and auxiliary emission controls",
+    P21: "Fuel and air metering and auxiliary emission controls",
+    P22: "Fuel and air metering and auxiliary emission controls",
+    P23: "Ignition system or misfire",
+    P24: "Auxiliary emission controls",
+    P25: "Auxiliary inputs",
+    P26: "Computer and auxiliary outputs",
+    P27: "Transmission",
+    P2A: "Fuel and air metering and auxiliary emission controls",
+    C00: "Chassis",
+    B00: "Body",
+    U00: "Network electrical",
+    U01: "Network communication",
+    U02: "Network communication",
+    U03: "Network software",
+    U04: "Network data"
+};
+
+/**
+ * Describes a diagnostic trouble code, e.g. "P0133".
+ * @param {string} code The five character code.
+ * @return {string} The description, or undefined for manufacturer specific codes outside the generic ranges.
+ */
+export function describeDTC(code: string): string {
+    code = code.toUpperCase();
+    if (dtcDescriptions[code]) {
+        return dtcDescriptions[code];
+    }
+    return rangeDescriptions[code.substr(0, 3)];
+}
+
+export default dtcDescriptions;
@@ -0,0 +1,872 @@
+import { pidRegistry, PidDefinition } from './pidRegistry';
+import { LoopbackTransport } from './loopbackTransport';
+
+/**
+ * Value of an emulated PID. A number is encoded with the PID's own formula, a string is
+ * sent as raw hex data bytes, and a function is called with the milliseconds since the
+ * emulator was created on every request.
+ */
+export type EmulatedValue = number | string | ((elapsedMs: number) => number | string);
+
+export interface ELM327EmulatorOptions {
+    /**
+     * Identification printed for ATZ and ATI. Defaults to "ELM327 v1.5". Versions before 1.3
+     * reject requests with a response count, like the real ones.
+     */
+    version?: string;
+    /**
+     * Protocol number the simulated vehicle talks (see ATSP). 6-9 are CAN, anything else
+     * produces legacy (J1850/ISO 9141/KWP) formatted responses. Defaults to 6.
+     */
+    vehicleProtocol?: string;
+    /**
+     * Battery voltage reported by ATRV.
+     */
+    voltage?: number;
+    /**
+     * Initial PID values by name. See EmulatedValue.
+     */
+    values?: { [name: string]: EmulatedValue };
+    /**
+     * Stored trouble codes returned by mode 03, e.g. ["P0133", "U0100"].
+     */
+    dtcs?: string[];
+    /**
+     * Pending trouble codes returned by mode 07.
+     */
+    pendingDtcs?: string[];
+    /**
+     * Permanent trouble codes returned by mode 0A. Mode 04 doesn't clear these.
+     */
+    permanentDtcs?: string[];
+    vin?: string;
+    /**
+     * Calibration IDs returned by mode 09 PID 04, up to 16 characters each.
+     */
+    calibrationIds?: string[];
+    /**
+     * Calibration verification numbers returned by mode 09 PID 06, 8 hex digits each.
+     */
+    cvns?: string[];
+    /**
+     * ECU name returned by mode 09 PID 0A, acronym and name, e.g. "ECM-EngineControl".
+     */
+    ecuName?: string;
+    /**
+     * In-use performance tracking counters returned by mode 09 PID 08, see
+     * InUsePerformance for their order.
+     */
+    inUsePerformance?: number[];
+    /**
+     * Freeze frame 0 returned by mode 02. PIDs without a value in the frame report their
+     * live value.
+     */
+    freezeFrame?: EmulatedFreezeFrame;
+    /**
+     * ECUs of the simulated vehicle. Defaults to a single engine ECU answering on 7E8.
+     * Only the first ECU answers modes other than 01.
+     */
+    ecus?: EmulatedEcu[];
+    /**
+     * Delay in ms before the answer to a command is sent.
+     */
+    responseDelay?: number;
+    /**
+     * AT commands answered with "?", to act like a clone adapter, e.g. ["AT2", "ST"] for one
+     * without adaptive timing and timeout setting. A command matches when it starts with
+     * an entry, without the "AT" prefix.
+     */
+    unsupportedCommands?: string[];
+    /**
+     * On-board monitoring test results returned by mode 06 on CAN. Defaults to a passing
+     * oxygen sensor, catalyst and misfire test.
+     */
+    monitorTests?: EmulatedMonitorTest[];
+}
+
+export interface EmulatedMonitorTest {
+    /**
+     * On-board monitor ID, e.g. "21".
+     */
+    mid: string;
+    tid: string;
+    /**
+     * Unit and scaling ID, e.g. "0A" for mV.
+     */
+    scalingId: string;
+    /**
+     * Raw 16-bit value and limits, scaled by the receiver.
+     */
+    value: number;
+    min: number;
+    max: number;
+}
+
+export interface EmulatedEcu {
+    /**
+     * 11-bit CAN response identifier, e.g. "7E8" for the engine or "7E9" for the
+     * transmission. 29-bit and legacy addresses are derived from it.
+     */
+    address: string;
+    /**
+     * Names of the mode 01 PIDs this ECU answers. Defaults to all.
+     */
+    pids?: string[];
+}
+
+export interface EmulatedFreezeFrame {
+    /**
+     * The trouble code that caused the frame, e.g. "P0301".
+     */
+    dtc: string;
+    values?: { [name: string]: EmulatedValue };
+}
+
+interface InjectedResponse {
+    response: string;
+    remaining: number;
+}
+
+const defaultValues: { [name: string]: EmulatedValue } = {
+    rpm: 780,
+    vss: 0,
+    temp: 88,
+    iat: 24,
+    load_pct: 21,
+    throttlepos: 14.9,
+    maf: 3.1,
+    map: 33,
+    fli: 62.7,
+    vpwr: 14.1,
+    aat: 19,
+    engineoilt: 92,
+    runtm: 0
+};
+
+const defaultMonitorTests: EmulatedMonitorTest[] = [
+    { mid: '01', tid: '01', scalingId: '0A', value: 3688, min: 3000, max: 4000 },
+    { mid: '21', tid: '80', scalingId: '24', value: 120, min: 0, max: 300 },
+    { mid: 'A2', tid: '0B', scalingId: '24', value: 2, min: 0, max: 65535 }
+];
+
+const canProtocols = ['6', '7', '8', '9'];
+
+/**
+ * Software ELM327 with a simulated vehicle behind it.
+ *
+ * It answers the AT commands OBDReader sends, mode 01 requests for every PID in
+ * obdInfo.ts, freeze frame 0 in mode 02, the trouble code modes 03/04/07/0A, monitor
+ * test results in mode 06 (CAN only), the VIN in mode 09 and mode 21/22 PIDs registered
+ * in pidRegistry that have a value (see setValue()). Use createTransport() to plug it into
+ * OBDReader.connect() in place of a real adapter.
+ */
+export class ELM327Emulator {
+    version: string;
+    vehicleProtocol: string;
+    voltage: number;
+    responseDelay: number;
+    dtcs: string[];
+    pendingDtcs: string[];
+    permanentDtcs: string[];
+    vin: string;
+    calibrationIds: string[];
+    cvns: string[];
+    ecuName: string;
+    inUsePerformance: number[];
+    freezeFrame: EmulatedFreezeFrame;
+    ecus: EmulatedEcu[];
+    unsupportedCommands: string[];
+    monitorTests: EmulatedMonitorTest[];
+
+    echo = true;
+    linefeeds = false;
+    spaces = true;
+    headers = false;
+    protocol = '0';
+    /**
+     * Request identifier set with ATSH. Undefined for the default functional (broadcast) one.
+     */
+    requestHeader: string;
+    /**
+     * Response identifier filter set with ATCRA.
+     */
+    receiveFilter: string;
+
+    private values: { [name: string]: EmulatedValue } = {};
+    private injected: InjectedResponse[] = [];
+    private searched = false;
+    /**
+     * Set by mode 04: clearing the codes resets the emissions monitors to incomplete.
+     */
+    private monitorsReset = false;
+    private startTime = Date.now();
+
+    constructor(options: ELM327EmulatorOptions = {}) {
+        this.version = options.version || 'ELM327 v1.5';
+        this.vehicleProtocol = options.vehicleProtocol || '6';
+        this.voltage = options.voltage !== undefined ? options.voltage : 12.6;
+        this.responseDelay = options.responseDelay || 0;
+        this.dtcs = options.dtcs || [];
+        this.pendingDtcs = options.pendingDtcs || [];
+        this.permanentDtcs = options.permanentDtcs || [];
+        this.vin = options.vin || '1G1JC5444R7252367';
+        this.calibrationIds = options.calibrationIds || ['JMB*36761500'];
+        this.cvns = options.cvns || ['1791BC82'];
+        this.ecuName = options.ecuName || 'ECM-EngineControl';
+        this.inUsePerformance = options.inUsePerformance ||
+            [412, 1301, 98, 412, 0, 0, 120, 412, 0, 0, 87, 412, 0, 0, 54, 412, 101, 412, 0, 0];
+        this.freezeFrame = options.freezeFrame;
+        this.ecus = options.ecus || [{ address: '7E8' }];
+        this.unsupportedCommands = (options.unsupportedCommands || []).map(command => command.toUpperCase());
+        this.monitorTests = options.monitorTests || defaultMonitorTests;
+
+        Object.keys(defaultValues).forEach(name => this.setValue(name, defaultValues[name]));
+        const values = options.values || {};
+        Object.keys(values).forEach(name => this.setValue(name, values[name]));
+    }
+
+    /**
+     * Sets the value the simulated vehicle reports for a PID.
+     * @param {string} name Name of the PID, see obdInfo.ts.
+     * @param {EmulatedValue} value Value to report.
+     */
+    setValue(name: string, value: EmulatedValue) {
+        const pid = pidRegistry.getByName(name);
+        if (!pid) {
+            throw new Error('ELM327Emulator: unknown PID ' + name);
+        }
+        if (typeof value === 'number') {
+            encodeValue(pid, value); //Fails early if the PID can't be encoded from a number.
+        }
+        this.values[name] = value;
+    }
+
+    /**
+     * Sets the trouble codes of the simulated vehicle.
+     * @param {string[]} dtcs Stored codes (mode 03).
+     * @param {string[]} pendingDtcs Pending codes (mode 07).
+     * @param {string[]} permanentDtcs Permanent codes (mode 0A).
+     */
+    setDTCs(dtcs: string[], pendingDtcs: string[] = [], permanentDtcs: string[] = []) {
+        this.dtcs = dtcs;
+        this.pendingDtcs = pendingDtcs;
+        this.permanentDtcs = permanentDtcs;
+    }
+
+    /**
+     * Makes the next OBD request(s) fail with an adapter message instead of vehicle data.
+     * "SEARCHING..." is printed in front of the normal answer instead of replacing it.
+     * @param {string} response E.g. "NO DATA", "?", "SEARCHING..." or "UNABLE TO CONNECT".
+     * @param {number} times Number of requests to answer this way. Defaults to 1.
+     */
+    inject(response: string, times: number = 1) {
+        this.injected.push({ response: response, remaining: times });
+    }
+
+    /**
+     * Creates a transport wired to this emulator, ready to pass to OBDReader.connect().
+     */
+    createTransport(): LoopbackTransport {
+        const transport = new LoopbackTransport(command => {
+            const output = this.handle(command);
+            if (this.responseDelay > 0) {
+                setTimeout(() => transport.push(output), this.responseDelay);
+                return;
+            }
+            return output;
+        });
+        return transport;
+    }
+
+    /**
+     * Processes one command and returns everything the adapter would print for it,
+     * including the echo and the '>' prompt.
+     * @param {string} command Command without the trailing \r.
+     */
+    handle(command: string): string {
+        const normalized = command.replace(/\s/g, '').toUpperCase();
+        const eol = () => this.linefeeds ? '\r\n' : '\r';
+        //The adapter echoes characters as they arrive, so the echo follows the settings before the command.
+        let output = this.echo ? command + eol() : '';
+        let lines: string[];
+
+        if (normalized.indexOf('AT') === 0) {
+            lines = this.handleAT(normalized.substr(2));
+        } else if (/^[0-9A-F]+$/.test(normalized)) {
+            lines = this.handleOBD(normalized);
+        } else {
+            lines = ['?'];
+        }
+
+        lines.forEach(line => {
+            output += line + eol();
+        });
+        return output + eol() + '>';
+    }
+
+    private handleAT(command: string): string[] {
+        if (this.unsupportedCommands.some(unsupported => command.indexOf(unsupported) === 0)) {
+            return ['?'];
+        }
+        if (command === 'Z') {
+            this.reset();
+            return ['', this.version];
+        }
+        if (command === 'D') {
+            this.reset();
+            return ['OK'];
+        }
+        if (command === 'I') {
+            return [this.version];
+        }
+        if (command === '@1') {
+            return ['OBDII to RS232 Interpreter'];
+        }
+        if (command === 'RV') {
+            return [this.voltage.toFixed(1) + 'V'];
+        }
+        if (command === 'DP') {
+            return [(this.protocol === '0' ? 'AUTO, ' : '') + protocolDescription(this.currentProtocol())];
+        }
+        if (command === 'DPN') {
+            return [(this.protocol === '0' ? 'A' : '') + this.currentProtocol()];
+        }
+
+        const flag = /^(E|L|S|H)([01])$/.exec(command);
+        if (flag) {
+            const on = flag[2] === '1';
+            switch (flag[1]) {
+                case 'E':
+                    this.echo = on;
+                    break;
+                case 'L':
+                    this.linefeeds = on;
+                    break;
+                case 'S':
+                    this.spaces = on;
+                    break;
+                case 'H':
+                    this.headers = on;
+                    break;
+            }
+            return ['OK'];
+        }
+
+        const header = /^SH([0-9A-F]{3}|[0-9A-F]{6}|[0-9A-F]{8})$/.exec(command);
+        if (header) {
+            this.requestHeader = ['7DF', '18DB33F1'].indexOf(header[1]) === -1 ? header[1] : undefined;
+            return ['OK'];
+        }
+        const filter = /^CRA([0-9A-F]{3}|[0-9A-F]{8})?$/.exec(command);
+        if (filter) {
+            this.receiveFilter = filter[1];
+            return ['OK'];
+        }
+
+        const protocol = /^SPA?([0-9A-C])$/.exec(command);
+        if (protocol) {
+            this.protocol = protocol[1];
+            this.searched = false;
+            return ['OK'];
+        }
+
+        if (/^AT[0-2]$/.test(command) || /^ST[0-9A-F]{2}$/.test(command)) {
+            return ['OK'];
+        }
+        return ['?'];
+    }
+
+    private handleOBD(command: string): string[] {
+        let request = command;
+        if (request.length % 2 === 1) {
+            const version = /v(\d+\.\d+)/i.exec(this.version);
+            if (version && parseFloat(version[1]) < 1.3) {
+                //Odd number of digits, the response count came with v1.3.
+                return ['?'];
+            }
+            //Trailing digit is the number of expected replies, the vehicle doesn't see it.
+            request = request.substr(0, request.length - 1);
+        }
+
+        const lines: string[] = [];
+        const injected = this.nextInjected();
+        if (injected === 'SEARCHING...') {
+            lines.push(injected);
+        } else if (injected) {
+            return [injected];
+        }
+
+        if (this.protocol === '0') {
+            if (!this.searched) {
+                if (!injected) {
+                    lines.push('SEARCHING...');
+                }
+                this.searched = true;
+            }
+        } else if (this.protocol !== this.vehicleProtocol) {
+            return lines.concat(['UNABLE TO CONNECT']);
+        }
+
+        let answered = false;
+        this.ecus.forEach((ecu, index) => {
+            if (!this.isAddressed(ecu, index)) {
+                return;
+            }
+            this.respond(request.substr(0, 2), request.substr(2), index).forEach(message => {
+                this.formatMessage(message, index).forEach(line => lines.push(line));
+                answered = true;
+            });
+        });
+        if (!answered) {
+            return lines.concat(['NO DATA']);
+        }
+        return lines;
+    }
+
+    /**
+     * Builds the response payloads (hex, without headers or framing) of one ECU for one request.
+     */
+    private respond(mode: string, pid: string, ecuIndex: number): string[] {
+        if (mode === '01') {
+            return this.respondRealTime(pid, this.ecus[ecuIndex]);
+        }
+        if (ecuIndex > 0) {
+            return [];
+        }
+        switch (mode) {
+            case '02':
+                return this.respondFreezeFrame(pid);
+            case '03':
+                return pid === '' ? this.respondDTCs('43', this.dtcs) : [];
+            case '04':
+                if (pid !== '') {
+                    return [];
+                }
+                this.dtcs = [];
+                this.pendingDtcs = [];
+                this.freezeFrame = undefined;
+                this.monitorsReset = true;
+                return ['44'];
+            case '07':
+                return pid === '' ? this.respondDTCs('47', this.pendingDtcs) : [];
+            case '0A':
+                return pid === '' ? this.respondDTCs('4A', this.permanentDtcs) : [];
+            case '06':
+                return this.respondMonitorTests(pid);
+            case '09':
+                return this.respondVehicleInfo(pid);
+            case '21':
+            case '22':
+                return this.respondManufacturer(mode, pid);
+        }
+        return [];
+    }
+
+    /**
+     * Answers manufacturer PIDs registered in pidRegistry, if a value was set for them.
+     */
+    private respondManufacturer(mode: string, pid: string): string[] {
+        const definition = pidRegistry.getByCommand(mode + pid);
+        if (!definition || this.values[definition.name] === undefined) {
+            return [];
+        }
+        const responseMode = (parseInt(mode, 16) + 0x40).toString(16).toUpperCase();
+        return [responseMode + pid + this.currentData(definition)];
+    }
+
+    private respondRealTime(pid: string, ecu: EmulatedEcu): string[] {
+        if (pid.length > 2 && pid.length <= 12 && pid.length % 2 === 0 && this.isCan()) {
+            //Several PIDs in one request: one response with the supported ones, "410C1AF80D00".
+            const parts = pid.match(/../g).map(single => this.respondRealTime(single, ecu)[0]).filter(part => part !== undefined);
+            return parts.length > 0 ? ['41' + parts.map(part => part.substr(2)).join('')] : [];
+        }
+        if (pid.length !== 2) {
+            return [];
+        }
+        const pidNumber = parseInt(pid, 16);
+        if (pidNumber % 0x20 === 0) {
+            const supported = this.supportedRealTimePids(ecu);
+            //ECUs don't answer the bitmap of a range they have no PIDs in.
+            if (pidNumber > 0 && !supported.some(entry => entry > pidNumber)) {
+                return [];
+            }
+            return ['41' + pid + supportedBitmap(supported, pidNumber)];
+        }
+        if (this.supportedRealTimePids(ecu).indexOf(pidNumber) === -1) {
+            return [];
+        }
+        if (pid === '02') {
+            return ['41' + pid + (this.freezeFrame ? encodeDTC(this.freezeFrame.dtc) : '0000')];
+        }
+        if (pid === '01' && this.values.dtc_cnt === undefined) {
+            return ['41' + pid + this.monitorStatus(ecu)];
+        }
+
+        const definition = pidRegistry.getByCommand('01' + pid);
+        if (!definition) {
+            return [];
+        }
+        return ['41' + pid + this.currentData(definition)];
+    }
+
+    /**
+     * PID 01 of a spark ignition engine ECU with the catalyst, EVAP, O2 sensor and O2 sensor
+     * heater monitors. The MIL is on while there are stored codes. Other ECUs have no monitors.
+     */
+    private monitorStatus(ecu: EmulatedEcu) {
+        if (ecu !== this.ecus[0]) {
+            return '00000000';
+        }
+        const count = Math.min(this.dtcs.length, 0x7F);
+        const byteA = (this.dtcs.length > 0 ? 0x80 : 0) | count;
+        return ('0' + byteA.toString(16).toUpperCase()).slice(-2) + '0765' + (this.monitorsReset ? '65' : '00');
+    }
+
+    private respondFreezeFrame(request: string): string[] {
+        const pid = request.substr(0, 2);
+        const frame = request.substr(2);
+        if (!this.freezeFrame || request.length !== 4 || frame !== '00') {
+            return [];
+        }
+
+        if (parseInt(pid, 16) % 0x20 === 0) {
+            return ['42' + pid + frame + supportedBitmap(this.supportedRealTimePids(), parseInt(pid, 16))];
+        }
+        if (pid === '02') {
+            return ['42' + pid + frame + encodeDTC(this.freezeFrame.dtc)];
+        }
+
+        const definition = pidRegistry.getByCommand('01' + pid);
+        if (!definition) {
+            return [];
+        }
+        const values = this.freezeFrame.values || {};
+        return ['42' + pid + frame + this.currentData(definition, values[definition.name])];
+    }
+
+    private respondDTCs(responseMode: string, dtcs: string[]): string[] {
+        const codes = dtcs.map(encodeDTC);
+        if (this.isCan()) {
+            return [responseMode + toHex(codes.length, 1) + codes.join('')];
+        }
+
+        const messages: string[] = [];
+        for (let i = 0; i === 0 || i < codes.length; i += 3) {
+            let message = responseMode;
+            for (let j = i; j < i + 3; j++) {
+                message += codes[j] || '0000';
+            }
+            messages.push(message);
+        }
+        return messages;
+    }
+
+    /**
+     * Mode 06 in the CAN format: the MID bitmaps, or all test records of one MID.
+     */
+    private respondMonitorTests(pid: string): string[] {
+        if (!this.isCan() || pid.length !== 2) {
+            return [];
+        }
+        const mid = parseInt(pid, 16);
+        const supported = this.monitorTests
+            .map(test => parseInt(test.mid, 16))
+            .filter((entry, index, all) => all.indexOf(entry) === index);
+        if (mid % 0x20 === 0) {
+            if (mid > 0 && !supported.some(entry => entry > mid)) {
+                return [];
+            }
+            return ['46' + pid + supportedBitmap(supported, mid)];
+        }
+        const records = this.monitorTests
+            .filter(test => parseInt(test.mid, 16) === mid)
+            .map(test => pid + test.tid.toUpperCase() + test.scalingId.toUpperCase() +
+                toHex(test.value & 0xFFFF, 2) + toHex(test.min & 0xFFFF, 2) + toHex(test.max & 0xFFFF, 2));
+        return records.length > 0 ? ['46' + records.join('')] : [];
+    }
+
+    private respondVehicleInfo(pid: string): string[] {
+        let vinData = asciiHex(this.vin);
+
+        const calibrationIds = this.calibrationIds.map(id => padEnd(asciiHex(id), 32));
+        const ecuName = /^([^-]{0,4})-?(.*)$/.exec(this.ecuName);
+        switch (pid) {
+            case '00':
+                return ['4900' + supportedBitmap([0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08, 0x09, 0x0A], 0)];
+            case '01':
+                return ['4901' + (this.isCan() ? '01' : '05')];
+            case '03':
+                return ['4903' + toHex(this.isCan() ? this.calibrationIds.length : this.calibrationIds.length * 4, 1)];
+            case '04':
+                return this.vehicleInfoResponse(pid, this.calibrationIds.length, calibrationIds.join(''));
+            case '05':
+                return ['4905' + toHex(this.cvns.length, 1)];
+            case '06':
+                return this.vehicleInfoResponse(pid, this.cvns.length, this.cvns.join('').toUpperCase());
+            case '07':
+                return ['4907' + toHex(this.isCan() ? this.inUsePerformance.length : this.inUsePerformance.length / 2, 1)];
+            case '08':
+                return this.vehicleInfoResponse(pid, this.inUsePerformance.length, this.inUsePerformance.map(counter => toHex(counter, 2)).join(''));
+            case '09':
+                return ['4909' + (this.isCan() ? '01' : '05')];
+            case '0A':
+                return this.vehicleInfoResponse(pid, 1,
+                    padEnd(asciiHex(ecuName[1]), 8) + padEnd(asciiHex('-' + ecuName[2]), 32));
+            case '02':
+                if (this.isCan()) {
+                    return ['490201' + vinData];
+                }
+                //Legacy protocols send the VIN as five numbered messages of four bytes, zero padded in front.
+                vinData = '000000' + vinData;
+                const messages: string[] = [];
+                for (let i = 0; i < 5; i++) {
+                    messages.push('4902' + toHex(i + 1, 1) + vinData.substr(i * 8, 8));
+                }
+                return messages;
+        }
+        return [];
+    }
+
+    /**
+     * Vehicle information in one CAN message led by the number of data items, or in numbered
+     * legacy messages of 4 bytes.
+     */
+    private vehicleInfoResponse(pid: string, items: number, data: string): string[] {
+        if (this.isCan()) {
+            return ['49' + pid + toHex(items, 1) + data];
+        }
+        const messages: string[] = [];
+        for (let i = 0; i * 8 < data.length; i++) {
+            messages.push('49' + pid + toHex(i + 1, 1) + padEnd(data.substr(i * 8, 8), 8));
+        }
+        return messages;
+    }
+
+    /**
+     * Splits a payload into the lines the adapter prints for it.
+     *
+     * Without headers, CAN payloads that don't fit a single frame use the ELM327 multi-frame
+     * layout ("014", "0: ...", "1: ..."). With headers, every CAN frame is printed with its
+     * identifier and ISO-TP PCI byte, and legacy messages with their three header bytes and
+     * checksum.
+     */
+    private formatMessage(payload: string, ecuIndex: number): string[] {
+        const bytes = payload.match(/../g);
+        const join = (chunk: string[]) => chunk.join(this.spaces ? ' ' : '');
+        const separator = this.spaces ? ' ' : '';
+
+        if (!this.isCan()) {
+            if (!this.headers) {
+                return [join(bytes)];
+            }
+            const message = ['48', '6B', toHex(0x10 + ecuIndex * 8, 1)].concat(bytes);
+            const checksum = message.reduce((sum, byte) => sum + parseInt(byte, 16), 0) % 256;
+            return [join(message.concat([toHex(checksum, 1)]))];
+        }
+
+        if (this.headers) {
+            const header = this.responseHeader(ecuIndex);
+            if (bytes.length <= 7) {
+                return [header + separator + join([toHex(bytes.length, 1)].concat(bytes))];
+            }
+            const frames = [header + separator + join(['1' + zeroPad(bytes.length.toString(16).toUpperCase(), 3).substr(0, 1), toHex(bytes.length % 256, 1)].concat(bytes.slice(0, 6)))];
+            for (let offset = 6, frame = 1; offset < bytes.length; offset += 7, frame++) {
+                frames.push(header + separator + join([toHex(0x20 + frame % 16, 1)].concat(bytes.slice(offset, offset + 7))));
+            }
+            return frames;
+        }
+
+        if (bytes.length <= 7) {
+            return [join(bytes)];
+        }
+        const lines = [zeroPad(bytes.length.toString(16).toUpperCase(), 3)];
+        lines.push('0:' + separator + join(bytes.slice(0, 6)));
+        for (let offset = 6, frame = 1; offset < bytes.length; offset += 7, frame++) {
+            lines.push((frame % 16).toString(16).toUpperCase() + ':' + separator + join(bytes.slice(offset, offset + 7)));
+        }
+        return lines;
+    }
+
+    /**
+     * The CAN identifier an ECU answers with, as printed with headers on.
+     */
+    private responseHeader(ecuIndex: number): string {
+        if (this.vehicleProtocol === '7' || this.vehicleProtocol === '9') {
+            const separator = this.spaces ? ' ' : '';
+            return ['18', 'DA', 'F1', toHex(0x10 + ecuIndex * 8, 1)].join(separator);
+        }
+        return this.ecus[ecuIndex].address;
+    }
+
+    /**
+     * Checks the ATSH request identifier and the ATCRA filter against an ECU.
+     */
+    private isAddressed(ecu: EmulatedEcu, ecuIndex: number): boolean {
+        if (!this.isCan()) {
+            return true;
+        }
+        const responseHeader = this.responseHeader(ecuIndex).replace(/ /g, '');
+        if (this.receiveFilter && this.receiveFilter !== responseHeader) {
+            return false;
+        }
+        if (this.requestHeader) {
+            //Physical addressing: 7E0 reaches 7E8, 18DA10F1 reaches 18DAF110.
+            const target = this.requestHeader.length === 3 ?
+                (parseInt(this.requestHeader, 16) + 8).toString(16).toUpperCase() :
+                this.requestHeader.substr(0, 4) + this.requestHeader.substr(6, 2) + this.requestHeader.substr(4, 2);
+            return target === responseHeader;
+        }
+        return true;
+    }
+
+    private currentData(definition: PidDefinition, value: EmulatedValue = this.values[definition.name]): string {
+        if (typeof value === 'function') {
+            value = value(Date.now() - this.startTime);
+        }
+        if (typeof value === 'number') {
+            return encodeValue(definition, value);
+        }
+        if (typeof value === 'string') {
+            return zeroPad(value.replace(/\s/g, '').toUpperCase(), definition.bytes * 2);
+        }
+        return zeroPad('', definition.bytes * 2);
+    }
+
+    private supportedRealTimePids(ecu: EmulatedEcu = this.ecus[0]): number[] {
+        return pidRegistry.list('01')
+            .filter(entry => !ecu.pids || ecu.pids.indexOf(entry.name) !== -1)
+            .map(entry => parseInt(entry.pid, 16));
+    }
+
+    private nextInjected(): string {
+        const next = this.injected[0];
+        if (!next) {
+            return undefined;
+        }
+        next.remaining--;
+        if (next.remaining <= 0) {
+            this.injected.shift();
+        }
+        return next.response;
+    }
+
+    private currentProtocol() {
+        return this.protocol === '0' && !this.searched ? '0' : this.vehicleProtocol;
+    }
+
+    private isCan() {
+        return canProtocols.indexOf(this.vehicleProtocol) !== -1;
+    }
+
+    private reset() {
+        this.echo = true;
+        this.linefeeds = false;
+        this.spaces = true;
+        this.headers = false;
+        this.protocol = '0';
+        this.searched = false;
+        this.requestHeader = undefined;
+        this.receiveFilter = undefined;
+    }
+}
+
+function protocolDescription(protocol: string) {
+    const descriptions: { [protocol: string]: string } = {
+        '0': 'Automatic',
+        '1': 'SAE J1850 PWM',
+        '2': 'SAE J1850 VPW',
+        '3': 'ISO 9141-2',
+        '4': 'ISO 14230-4 (KWP 5BAUD)',
+        '5': 'ISO 14230-4 (KWP FAST)',
+        '6': 'ISO 15765-4 (CAN 11/500)',
+        '7': 'ISO 15765-4 (CAN 29/500)',
+        '8': 'ISO 15765-4 (CAN 11/250)',
+        '9': 'ISO 15765-4 (CAN 29/250)',
+        'A': 'SAE J1939 (CAN 29/250)',
+        'B': 'USER1 CAN (11* /125)',
+        'C': 'USER2 CAN (11* /50)'
+    };
+    return descriptions[protocol];
+}
+
+/**
+ * Finds the raw bytes whose decoded value is closest to the requested one. Relies on the
+ * PID's convertToUseful being increasing, which holds for the numeric PIDs in obdInfo.ts
+ * except signed ones like evap_vp.
+ */
+function encodeValue(definition: PidDefinition, value: number): string {
+    const decode = (raw: number) => {
+        const bytes = zeroPad(raw.toString(16).toUpperCase(), definition.bytes * 2).match(/../g);
+        return definition.convertToUseful.apply(null, bytes) as number;
+    };
+    const max = Math.pow(256, definition.bytes) - 1;
+
+    if (!definition.convertToUseful || definition.bytes > 4 ||
+        typeof decode(0) !== 'number' || !(decode(max) > decode(0))) {
+        throw new Error('ELM327Emulator: ' + definition.name + ' can only be set from raw hex data');
+    }
+
+    let low = 0, high = max;
+    while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        if (decode(middle) < value) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    if (low > 0 && Math.abs(decode(low - 1) - value) <= Math.abs(decode(low) - value)) {
+        low--;
+    }
+    return zeroPad(low.toString(16).toUpperCase(), definition.bytes * 2);
+}
+
+function encodeDTC(code: string): string {
+    const system = 'PCBU'.indexOf(code.charAt(0).toUpperCase());
+    const firstByte = (system << 6) + (parseInt(code.charAt(1), 16) << 4) + parseInt(code.charAt(2), 16);
+    return toHex(firstByte, 1) + code.substr(3, 2).toUpperCase();
+}
+
+function supportedBitmap(supported: number[], base: number): string {
+    let bitmap = 0;
+    for (let bit = 0; bit < 32; bit++) {
+        const pid = base + bit + 1;
+        //The last bit says whether the next range is supported.
+        const isSupported = bit === 31 ?
+            supported.some(entry => entry > pid) :
+            supported.indexOf(pid) !== -1;
+        if (isSupported) {
+            bitmap += Math.pow(2, 31 - bit);
+        }
+    }
+    return toHex(bitmap, 4);
+}
+
+function toHex(value: number, bytes: number) {
+    return zeroPad(value.toString(16).toUpperCase(), bytes * 2);
+}
+
+/**
+ * Pads with 00 bytes at the end, like the text data of mode 09.
+ */
+function padEnd(hex: string, width: number) {
+    while (hex.length < width) {
+        hex += '0';
+    }
+    return hex.substr(0, width);
+}
+
+function asciiHex(text: string) {
+    let hex = '';
+    for (let i = 0; i < text.length; i++) {
+        hex += toHex(text.charCodeAt(i), 1);
+    }
+    return hex;
+}
+
+function zeroPad(hex: string, width: number) {
+    while (hex.length < width) {
+        hex = '0' + hex;
+    }
+    return hex.substr(0, width);
+}
@@ -0,0 +1,212 @@
+'use strict';
+
+/**
+ * A coded PID value with its meaning.
+ */
+export interface EnumeratedValue {
+    /**
+     * The value as the vehicle sent it.
+     */
+    code: number;
+    /**
+     * Meaning of the code per SAE J1979, e.g. "Gasoline".
+     */
+    description: string;
+}
+
+/**
+ * Oxygen sensors present (PID 13 and 1D), one flag per sensor of each bank, sensor 1 first.
+ */
+export interface OxygenSensorLocations {
+    code: number;
+    bank1: boolean[];
+    bank2: boolean[];
+    /**
+     * --! Only with PID 1D, for engines with four banks of two sensors.
+     */
+    bank3?: boolean[];
+    bank4?: boolean[];
+}
+
+/**
+ * Fuel system status (PID 03), one bit set per system.
+ */
+export const fuelSystemStatus: { [code: number]: string } = {
+    0: 'Not present',
+    1: 'Open loop due to insufficient engine temperature',
+    2: 'Closed loop, using oxygen sensor feedback',
+    4: 'Open loop due to engine load or fuel cut due to deceleration',
+    8: 'Open loop due to system failure',
+    16: 'Closed loop, using at least one oxygen sensor but there is a fault in the feedback system'
+};
+
+/**
+ * Commanded secondary air status (PID 12), one bit set.
+ */
+export const secondaryAirStatus: { [code: number]: string } = {
+    1: 'Upstream of first catalytic converter',
+    2: 'Downstream of first catalytic converter',
+    4: 'From the outside atmosphere or off',
+    8: 'Pump commanded on for diagnostics'
+};
+
+/**
+ * OBD standards the vehicle conforms to (PID 1C).
+ */
+export const obdStandards: { [code: number]: string } = {
+    1: 'OBD-II (California ARB)',
+    2: 'OBD (Federal EPA)',
+    3: 'OBD and OBD-II',
+    4: 'OBD-I',
+    5: 'Not OBD compliant',
+    6: 'EOBD (Europe)',
+    7: 'EOBD and OBD-II',
+    8: 'EOBD and OBD',
+    9: 'EOBD, OBD and OBD-II',
+    10: 'JOBD (Japan)',
+    11: 'JOBD and OBD-II',
+    12: 'JOBD and EOBD',
+    13: 'JOBD, EOBD and OBD-II',
+    17: 'Engine Manufacturer Diagnostics (EMD)',
+    18: 'Engine Manufacturer Diagnostics Enhanced (EMD+)',
+    19: 'Heavy Duty On-Board Diagnostics (Child/Partial) (HD OBD-C)',
+    20: 'Heavy Duty On-Board Diagnostics (HD OBD)',
+    21: 'World Wide Harmonized OBD (WWH OBD)',
+    23: 'Heavy Duty Euro OBD Stage I without NOx control (HD EOBD-I)',
+    24: 'Heavy Duty Euro OBD Stage I with NOx control (HD EOBD-I N)',
+    25: 'Heavy Duty Euro OBD Stage II without NOx control (HD EOBD-II)',
+    26: 'Heavy Duty Euro OBD Stage II with NOx control (HD EOBD-II N)',
+    28: 'Brazil OBD Phase 1 (OBDBr-1)',
+    29: 'Brazil OBD Phase 2 (OBDBr-2)',
+    30: 'Korean OBD (KOBD)',
+    31: 'India OBD I (IOBD I)',
+    32: 'India OBD II (IOBD II)',
+    33: 'Heavy Duty Euro OBD Stage VI (HD EOBD-IV)'
+};
+
+/**
+ * Fuel type (PID 51). TripComputer uses the codes to pick the fuel properties.
+ */
+export const fuelTypes: { [code: number]: string } = {
+    0: 'Not available',
+    1: 'Gasoline',
+    2: 'Methanol',
+    3: 'Ethanol',
+    4: 'Diesel',
+    5: 'LPG',
+    6: 'CNG',
+    7: 'Propane',
+    8: 'Electric',
+    9: 'Bifuel running Gasoline',
+    10: 'Bifuel running Methanol',
+    11: 'Bifuel running Ethanol',
+    12: 'Bifuel running LPG',
+    13: 'Bifuel running CNG',
+    14: 'Bifuel running Propane',
+    15: 'Bifuel running Electricity',
+    16: 'Bifuel running electric and combustion engine',
+    17: 'Hybrid gasoline',
+    18: 'Hybrid Ethanol',
+    19: 'Hybrid Diesel',
+    20: 'Hybrid Electric',
+    21: 'Hybrid running electric and combustion engine',
+    22: 'Hybrid Regenerative',
+    23: 'Bifuel running diesel'
+};
+
+/**
+ * Emission requirements the vehicle is designed for (PID 5F).
+ */
+export const emissionRequirements: { [code: number]: string } = {
+    0x0E: 'Heavy Duty Vehicles (EURO IV) B1',
+    0x0F: 'Heavy Duty Vehicles (EURO V) B2',
+    0x10: 'Heavy Duty Vehicles (EURO EEV) C'
+};
+
+/**
+ * Whether a decoded value is an EnumeratedValue.
+ */
+export function isEnumeratedValue(value: unknown): value is EnumeratedValue {
+    return !!value && typeof (value as EnumeratedValue).code === 'number' && typeof (value as EnumeratedValue).description === 'string';
+}
+
+function enumerate(byte: string, table: { [code: number]: string }): EnumeratedValue {
+    const code = parseInt(byte, 16);
+    return { code: code, description: table[code] !== undefined ? table[code] : 'Unknown (' + code + ')' };
+}
+
+/**
+ * Flags of the bits of a byte, lowest bit first.
+ */
+function bits(byte: string, first: number, count: number) {
+    const value = parseInt(byte, 16);
+    const flags: boolean[] = [];
+    for (let bit = first; bit < first + count; bit++) {
+        flags.push((value & (1 << bit)) !== 0);
+    }
+    return flags;
+}
+
+/**
+ * PID 03, byte A for fuel system 1, byte B for fuel system 2.
+ */
+export function convertFuelSystem(byteA: string, byteB: string) {
+    const reply = {
+        system1: enumerate(byteA, fuelSystemStatus),
+        system2: undefined as EnumeratedValue
+    };
+    if (byteB) {
+        reply.system2 = enumerate(byteB, fuelSystemStatus);
+    }
+    return reply;
+}
+
+export function convertSecondaryAirStatus(byte: string) {
+    return enumerate(byte, secondaryAirStatus);
+}
+
+/**
+ * PID 13, bits 0-3 sensors 1-4 of bank 1, bits 4-7 of bank 2.
+ */
+export function convertOxygenSensors(byte: string): OxygenSensorLocations {
+    return {
+        code: parseInt(byte, 16),
+        bank1: bits(byte, 0, 4),
+        bank2: bits(byte, 4, 4)
+    };
+}
+
+/**
+ * PID 1D, two bits (sensor 1 and 2) per bank.
+ */
+export function convertOxygenSensors4Banks(byte: string): OxygenSensorLocations {
+    return {
+        code: parseInt(byte, 16),
+        bank1: bits(byte, 0, 2),
+        bank2: bits(byte, 2, 2),
+        bank3: bits(byte, 4, 2),
+        bank4: bits(byte, 6, 2)
+    };
+}
+
+export function convertObdStandard(byte: string) {
+    return enumerate(byte, obdStandards);
+}
+
+/**
+ * PID 1E, bit 0 is the power take off status.
+ */
+export function convertAuxiliaryInput(byte: string) {
+    return {
+        code: parseInt(byte, 16),
+        powerTakeOff: bits(byte, 0, 1)[0]
+    };
+}
+
+export function convertFuelType(byte: string) {
+    return enumerate(byte, fuelTypes);
+}
+
+export function convertEmissionRequirements(byte: string) {
+    return enumerate(byte, emissionRequirements);
+}
@@ -0,0 +1,98 @@
+/**
+ * Machine-readable error codes, see OBDError.code.
+ */
+export type OBDErrorCode =
+    //Error responses of the adapter, see AdapterError.
+    'UNKNOWN_COMMAND' | 'NO_DATA' | 'UNABLE_TO_CONNECT' | 'CAN_ERROR' | 'BUS_ERROR' | 'BUS_BUSY' |
+    'BUS_INIT_ERROR' | 'BUFFER_FULL' | 'STOPPED' | 'DATA_ERROR' | 'RX_ERROR' | 'FEEDBACK_ERROR' |
+    'ACTIVITY_ALERT' | 'LOW_POWER_ALERT' | 'LOW_VOLTAGE_RESET' | 'INTERNAL_ERROR' |
+    //The link to the adapter, see ConnectionError.
+    'NOT_CONNECTED' | 'OPEN_FAILED' | 'WRITE_FAILED' | 'TRANSPORT_FAILURE' | 'CONNECTION_LOST' |
+    'DISCONNECTED' | 'RECONNECT_FAILED' | 'NO_DEVICE' |
+    //Requests, see RequestError.
+    'TIMEOUT' | 'CANCELLED' | 'QUEUE_OVERFLOW' | 'UNKNOWN_PID' | 'UNEXPECTED_RESPONSE' | 'UNSUPPORTED_PROTOCOL' |
+    //Wrong use of the API.
+    'INVALID_ARGUMENT';
+
+/**
+ * Base class of all errors OBDReader rejects with, throws or emits.
+ */
+export class OBDError extends Error {
+    /**
+     * @param {string} message Human readable description.
+     * @param {OBDErrorCode} code Machine-readable code.
+     * @param {string} command The command that caused the error, e.g. "010C". --! Only for
+     * errors caused by a command.
+     * @param {any} cause The underlying error, e.g. of the transport.
+     */
+    constructor(message: string, public code: OBDErrorCode, public command?: string, public cause?: any) {
+        super(message);
+        //Extending Error loses the prototype when compiled to ES5, so instanceof would fail.
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * The adapter answered with one of its error messages, e.g. "CAN ERROR".
+ */
+export class AdapterError extends OBDError {
+    /**
+     * @param {OBDErrorCode} code See adapterErrorCode().
+     * @param {string} command The command the adapter answered.
+     * @param {string} response The error message as the adapter sent it.
+     */
+    constructor(code: OBDErrorCode, command: string, public response: string) {
+        super(response + ' in response to ' + command, code, command);
+    }
+}
+
+/**
+ * The link to the adapter is missing, failed or was closed.
+ */
+export class ConnectionError extends OBDError {
+}
+
+/**
+ * A request couldn't be sent or wasn't answered as expected.
+ */
+export class RequestError extends OBDError {
+}
+
+/**
+ * Error messages of the ELM327 (see its data sheet) by the pattern of their line. Matched
+ * against lines with spaces, as the adapter prints them.
+ */
+const adapterErrors: { pattern: RegExp, code: OBDErrorCode }[] = [
+    { pattern: /^\?$/, code: 'UNKNOWN_COMMAND' },
+    { pattern: /^NO DATA$/, code: 'NO_DATA' },
+    { pattern: /^UNABLE TO CONNECT$/, code: 'UNABLE_TO_CONNECT' },
+    { pattern: /^CAN ERROR$/, code: 'CAN_ERROR' },
+    { pattern: /^BUS ERROR$/, code: 'BUS_ERROR' },
+    { pattern: /^BUS BUSY$/, code: 'BUS_BUSY' },
+    //"BUS INIT: ...ERROR", the dots are printed while the initiation runs.
+    { pattern: /^BUS INIT:.*ERROR$/, code: 'BUS_INIT_ERROR' },
+    { pattern: /^BUFFER FULL$/, code: 'BUFFER_FULL' },
+    { pattern: /^STOPPED$/, code: 'STOPPED' },
+    //Also behind the data of a message with a wrong checksum: "41 0C 1A F8 <DATA ERROR".
+    { pattern: /(^|<)DATA ERROR$/, code: 'DATA_ERROR' },
+    { pattern: /(^|<)RX ERROR$/, code: 'RX_ERROR' },
+    { pattern: /^FB ERROR$/, code: 'FEEDBACK_ERROR' },
+    { pattern: /^ACT ALERT$/, code: 'ACTIVITY_ALERT' },
+    { pattern: /^LP ALERT$/, code: 'LOW_POWER_ALERT' },
+    { pattern: /^LV RESET$/, code: 'LOW_VOLTAGE_RESET' },
+    //Internal errors, e.g. "ERR94" after a fatal CAN error.
+    { pattern: /^ERR[0-9]{2}$/, code: 'INTERNAL_ERROR' }
+];
+
+/**
+ * Recognises the error messages of the ELM327.
+ * @param {string} line A line of a response.
+ * @return {OBDErrorCode} The code of the error, undefined for data and informational lines
+ * like "OK" or "SEARCHING...".
+ */
+export function adapterErrorCode(line: string): OBDErrorCode {
+    const normalized = line.trim().toUpperCase();
+    const match = adapterErrors.filter(error => error.pattern.test(normalized))[0];
+    return match ? match.code : undefined;
+}
@@ -0,0 +1,72 @@
+import { EventEmitter } from 'events';
+
+import { Transport } from './transport';
+
+/**
+ * Computes the adapter output for a command written to a LoopbackTransport.
+ * The command is passed without its trailing \r.
+ */
+export type LoopbackResponder = (command: string) => string | void;
+
+/**
+ * In-memory transport. Everything written to it is handed to an optional responder, and
+ * anything passed to push() is delivered to the reader as if the adapter had sent it.
+ */
+export class LoopbackTransport extends EventEmitter implements Transport {
+    /**
+     * Every command written since the transport was created, without the trailing \r.
+     */
+    written: string[] = [];
+    private opened = false;
+
+    constructor(public responder?: LoopbackResponder) {
+        super();
+    }
+
+    open(success: () => void, error: (err?: any) => void) {
+        this.opened = true;
+        setImmediate(success);
+    }
+
+    write(buffer: Buffer, cb: (err?: any) => void) {
+        if (!this.opened) {
+            setImmediate(() => cb(new Error('Loopback transport is closed.')));
+            return;
+        }
+
+        const commands = buffer.toString('utf-8').split('\r').filter(command => command !== '');
+        setImmediate(() => {
+            cb();
+            commands.forEach(command => {
+                this.written.push(command);
+                if (this.responder) {
+                    const response = this.responder(command);
+                    if (response) {
+                        this.push(response);
+                    }
+                }
+            });
+        });
+    }
+
+    /**
+     * Delivers data to the reader as if the adapter had sent it.
+     * @param {string} data Raw adapter output, including any '>' prompt.
+     */
+    push(data: string) {
+        if (this.opened) {
+            this.emit('data', data);
+        }
+    }
+
+    close() {
+        if (this.opened) {
+            this.opened = false;
+            setImmediate(() => this.emit('closed'));
+        }
+    }
+
+    isOpen() {
+        return this.opened;
+    }
+}
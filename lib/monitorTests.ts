@@ -0,0 +1,276 @@
+'use strict';
+
+/**
+ * One test result of an on-board monitor (mode 06 on CAN).
+ */
+export interface MonitorTestResult {
+    /**
+     * Test ID, e.g. "01". 80-FE are manufacturer defined.
+     */
+    tid: string;
+    /**
+     * Standard name of the test, "Manufacturer test 85" for manufacturer defined ones.
+     */
+    name: string;
+    /**
+     * Unit and scaling ID of the values (SAE J1979 appendix E), e.g. "0A".
+     */
+    scalingId: string;
+    /**
+     * Symbol of the unit, e.g. "mV". Empty for counts and raw values.
+     */
+    unit: string;
+    value: number;
+    min: number;
+    max: number;
+    /**
+     * Whether the value is within the limits.
+     */
+    passed: boolean;
+}
+
+/**
+ * The test results of one monitor of one ECU, see OBDReader.readMonitorTests().
+ */
+export interface MonitorTests {
+    /**
+     * On-board monitor ID, e.g. "21".
+     */
+    mid: string;
+    /**
+     * Name of the monitor, e.g. "Catalyst monitor bank 1".
+     */
+    name: string;
+    /**
+     * Address of the ECU, see ResponseMessage.ecu. --! Only with headers on.
+     */
+    ecu?: string;
+    tests: MonitorTestResult[];
+}
+
+interface Scaling {
+    unit: string;
+    factor: number;
+    offset?: number;
+}
+
+/**
+ * Unit and scaling IDs of SAE J1979 appendix E. 01-7F scale unsigned values, 81-FE the same
+ * units for signed values.
+ */
+const scalings: { [scalingId: string]: Scaling } = {
+    '01': { unit: '', factor: 1 },
+    '02': { unit: '', factor: 0.1 },
+    '03': { unit: '', factor: 0.01 },
+    '04': { unit: '', factor: 0.001 },
+    '05': { unit: '', factor: 0.0000305 },
+    '06': { unit: '', factor: 0.000305 },
+    '07': { unit: 'rpm', factor: 0.25 },
+    '08': { unit: 'km/h', factor: 0.01 },
+    '09': { unit: 'km/h', factor: 1 },
+    '0A': { unit: 'mV', factor: 0.122 },
+    '0B': { unit: 'V', factor: 0.001 },
+    '0C': { unit: 'V', factor: 0.01 },
+    '0D': { unit: 'mA', factor: 0.00390625 },
+    '0E': { unit: 'A', factor: 0.001 },
+    '0F': { unit: 'A', factor: 0.01 },
+    '10': { unit: 'ms', factor: 1 },
+    '11': { unit: 'ms', factor: 100 },
+    '12': { unit: 's', factor: 1 },
+    '13': { unit: 'mΩ', factor: 1 },
+    '14': { unit: 'Ω', factor: 1 },
+    '15': { unit: 'kΩ', factor: 1 },
+    '16': { unit: '°C', factor: 0.1, offset: -40 },
+    '17': { unit: 'kPa', factor: 0.01 },
+    '18': { unit: 'kPa', factor: 0.0117 },
+    '19': { unit: 'kPa', factor: 0.079 },
+    '1A': { unit: 'kPa', factor: 1 },
+    '1B': { unit: 'kPa', factor: 10 },
+    '1C': { unit: '°', factor: 0.01 },
+    '1D': { unit: '°', factor: 0.5 },
+    '1E': { unit: '', factor: 0.0000305 },
+    '1F': { unit: '', factor: 0.05 },
+    '20': { unit: '', factor: 0.0039062 },
+    '21': { unit: 'mHz', factor: 1 },
+    '22': { unit: 'Hz', factor: 1 },
+    '23': { unit: 'kHz', factor: 1 },
+    '24': { unit: '', factor: 1 },
+    '25': { unit: 'km', factor: 1 },
+    '26': { unit: 'mV/ms', factor: 0.1 },
+    '27': { unit: 'g/s', factor: 0.01 },
+    '28': { unit: 'g/s', factor: 1 },
+    '29': { unit: 'Pa/s', factor: 0.25 },
+    '2A': { unit: 'kg/h', factor: 0.001 },
+    '2B': { unit: '', factor: 1 },
+    '2C': { unit: 'g/cyl', factor: 0.01 },
+    '2D': { unit: 'mg/stroke', factor: 0.01 },
+    '2E': { unit: '', factor: 1 },
+    '2F': { unit: '%', factor: 0.01 },
+    '30': { unit: '%', factor: 0.001526 },
+    '31': { unit: 'L', factor: 0.001 },
+    '32': { unit: 'in', factor: 0.0000305 },
+    '33': { unit: '', factor: 0.00024414 },
+    '34': { unit: 'min', factor: 1 },
+    '35': { unit: 'ms', factor: 10 },
+    '36': { unit: 'g', factor: 0.01 },
+    '37': { unit: 'g', factor: 0.1 },
+    '38': { unit: 'g', factor: 1 },
+    '39': { unit: '%', factor: 0.01, offset: -327.68 },
+    '3A': { unit: 'g', factor: 0.001 },
+    '3B': { unit: 'g', factor: 0.0001 },
+    '3C': { unit: 'µs', factor: 0.1 },
+    '3D': { unit: 'mA', factor: 0.01 },
+    '3E': { unit: 'mm²', factor: 0.00006103516 },
+    '3F': { unit: 'L', factor: 0.01 },
+    '81': { unit: '', factor: 1 },
+    '82': { unit: '', factor: 0.1 },
+    '83': { unit: '', factor: 0.01 },
+    '84': { unit: '', factor: 0.001 },
+    '85': { unit: '', factor: 0.0000305 },
+    '86': { unit: '', factor: 0.000305 },
+    '8A': { unit: 'mV', factor: 0.122 },
+    '8B': { unit: 'V', factor: 0.001 },
+    '8C': { unit: 'V', factor: 0.01 },
+    '8D': { unit: 'mA', factor: 0.00390625 },
+    '8E': { unit: 'A', factor: 0.001 },
+    '90': { unit: 'ms', factor: 1 },
+    '96': { unit: '°C', factor: 0.1 },
+    '9C': { unit: '°', factor: 0.01 },
+    '9D': { unit: '°', factor: 0.5 },
+    'A8': { unit: 'g/s', factor: 1 },
+    'A9': { unit: 'Pa/s', factor: 0.25 },
+    'AD': { unit: 'mg/stroke', factor: 0.01 },
+    'AE': { unit: 'mg/stroke', factor: 0.1 },
+    'AF': { unit: '%', factor: 0.01 },
+    'B0': { unit: '%', factor: 0.003052 },
+    'B1': { unit: 'mV/s', factor: 2 },
+    'FC': { unit: 'kPa', factor: 0.01 },
+    'FD': { unit: 'kPa', factor: 0.001 },
+    'FE': { unit: 'Pa', factor: 0.25 }
+};
+
+/**
+ * Standard test IDs of the oxygen sensor monitors.
+ */
+const oxygenSensorTests: { [tid: string]: string } = {
+    '01': 'Rich to lean sensor threshold voltage',
+    '02': 'Lean to rich sensor threshold voltage',
+    '03': 'Low sensor voltage for switch time calculation',
+    '04': 'High sensor voltage for switch time calculation',
+    '05': 'Rich to lean sensor switch time',
+    '06': 'Lean to rich sensor switch time',
+    '07': 'Minimum sensor voltage for test cycle',
+    '08': 'Maximum sensor voltage for test cycle',
+    '09': 'Time between sensor transitions',
+    '0A': 'Sensor period'
+};
+
+/**
+ * Standard test IDs of the misfire monitors.
+ */
+const misfireTests: { [tid: string]: string } = {
+    '0B': 'EWMA misfire counts for last ten driving cycles',
+    '0C': 'Misfire counts for last or current driving cycle'
+};
+
+/**
+ * Monitor names by ranges of MIDs. Monitors repeated per bank (and sensor) are numbered from
+ * the first MID of their range.
+ */
+const monitorRanges: { first: number, last: number, name: (index: number) => string }[] = [
+    { first: 0x01, last: 0x10, name: index => 'Oxygen sensor monitor ' + bankSensor(index) },
+    { first: 0x21, last: 0x24, name: index => 'Catalyst monitor bank ' + (index + 1) },
+    { first: 0x31, last: 0x34, name: index => 'EGR monitor bank ' + (index + 1) },
+    { first: 0x35, last: 0x38, name: index => 'VVT monitor bank ' + (index + 1) },
+    { first: 0x39, last: 0x3D, name: index => ['EVAP monitor (cap off / 0.150")', 'EVAP monitor (0.090")',
+        'EVAP monitor (0.040")', 'EVAP monitor (0.020")', 'Purge flow monitor'][index] },
+    { first: 0x41, last: 0x50, name: index => 'Oxygen sensor heater monitor ' + bankSensor(index) },
+    { first: 0x61, last: 0x64, name: index => 'Heated catalyst monitor bank ' + (index + 1) },
+    { first: 0x71, last: 0x74, name: index => 'Secondary air monitor ' + (index + 1) },
+    { first: 0x81, last: 0x84, name: index => 'Fuel system monitor bank ' + (index + 1) },
+    { first: 0x85, last: 0x88, name: index => 'Boost pressure control monitor bank ' + (index + 1) },
+    { first: 0x90, last: 0x91, name: index => 'NOx adsorber monitor bank ' + (index + 1) },
+    { first: 0x98, last: 0x99, name: index => 'NOx catalyst monitor bank ' + (index + 1) },
+    { first: 0xA1, last: 0xA1, name: () => 'Misfire monitor general data' },
+    { first: 0xA2, last: 0xAD, name: index => 'Misfire cylinder ' + (index + 1) + ' data' },
+    { first: 0xB0, last: 0xB1, name: index => 'PM filter monitor bank ' + (index + 1) }
+];
+
+function bankSensor(index: number) {
+    return 'bank ' + (Math.floor(index / 4) + 1) + ' sensor ' + (index % 4 + 1);
+}
+
+/**
+ * @param {string} mid On-board monitor ID, e.g. "21".
+ * @return {string} Its name, "Monitor 5A" for IDs without a standard name.
+ */
+export function monitorName(mid: string): string {
+    const number = parseInt(mid, 16);
+    const range = monitorRanges.filter(candidate => number >= candidate.first && number <= candidate.last)[0];
+    return range ? range.name(number - range.first) : 'Monitor ' + mid.toUpperCase();
+}
+
+/**
+ * @param {string} mid On-board monitor ID, the standard test IDs depend on the monitor.
+ * @param {string} tid Test ID, e.g. "01".
+ */
+export function monitorTestName(mid: string, tid: string): string {
+    const number = parseInt(mid, 16);
+    const standard: { [tid: string]: string } = number >= 0x01 && number <= 0x10 ? oxygenSensorTests :
+        number >= 0xA1 && number <= 0xAD ? misfireTests :
+        {};
+    return standard[tid.toUpperCase()] || (parseInt(tid, 16) >= 0x80 ? 'Manufacturer test ' : 'Test ') + tid.toUpperCase();
+}
+
+/**
+ * Decodes the test records of a mode 06 response on CAN: 9 bytes each, MID, TID, unit and
+ * scaling ID, then value, minimum and maximum of 2 bytes each.
+ * @param {string} data An assembled response without spaces, e.g. "4601010A0E4C0D2F0FA0".
+ * @param {string} ecu The address of the ECU that sent the response, if known.
+ * @return {MonitorTests[]} The results by monitor, in the order of the response.
+ */
+export function decodeMonitorTests(data: string, ecu?: string): MonitorTests[] {
+    const groups: MonitorTests[] = [];
+    if (data.substr(0, 2) !== '46') {
+        return groups;
+    }
+    for (let position = 2; position + 18 <= data.length; position += 18) {
+        const record = data.substr(position, 18).toUpperCase();
+        const mid = record.substr(0, 2);
+        const tid = record.substr(2, 2);
+        const scalingId = record.substr(4, 2);
+        const scaling = scalings[scalingId] || { unit: '', factor: 1 };
+        const signed = parseInt(scalingId, 16) >= 0x80;
+        const decode = (hex: string) => {
+            let raw = parseInt(hex, 16);
+            if (signed && raw >= 0x8000) {
+                raw -= 0x10000;
+            }
+            //Rounded to the precision of the factor, e.g. 450.018 mV instead of 450.01800000000003.
+            return parseFloat((raw * scaling.factor + (scaling.offset || 0)).toPrecision(12));
+        };
+
+        const value = decode(record.substr(6, 4));
+        const min = decode(record.substr(10, 4));
+        const max = decode(record.substr(14, 4));
+        let group = groups.filter(candidate => candidate.mid === mid)[0];
+        if (!group) {
+            group = { mid: mid, name: monitorName(mid), tests: [] };
+            if (ecu !== undefined) {
+                group.ecu = ecu;
+            }
+            groups.push(group);
+        }
+        group.tests.push({
+            tid: tid,
+            name: monitorTestName(mid, tid),
+            scalingId: scalingId,
+            unit: scaling.unit,
+            value: value,
+            min: min,
+            max: max,
+            passed: value >= min && value <= max
+        });
+    }
+    return groups;
+}
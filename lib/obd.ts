@@ -1,22 +1,408 @@
-const EventEmitter = require('events').EventEmitter;
-import BSP from 'bluetooth-serial-port';
+import { EventEmitter } from 'events';
 
-import PIDS from './obdInfo';
+import { pidRegistry, decodePid, PidName, PidValue } from './pidRegistry';
+import { Unit, UnitProfile, unitProfiles, ConvertedValue, applyUnitProfile, formatValue } from './units';
+import { DiagnosticTroubleCode, decodeDTCResponse } from './dtc';
+import { assembleResponse, ResponseMessage } from './responseAssembler';
+import { Transport } from './transport';
+import { BluetoothTransport, loadBluetoothSerialPort } from './bluetoothTransport';
+import { CommandScheduler, CommandPriority, ScheduledCommand, SchedulerStats } from './commandScheduler';
+import { PollScheduler, PollerOptions, PollerStatus } from './pollScheduler';
+import { AdapterInfo, probeAdapter, supportsResponseCount } from './adapterInfo';
+import { OBDError, OBDErrorCode, AdapterError, ConnectionError, RequestError, adapterErrorCode } from './errors';
+import { MonitorTests, decodeMonitorTests } from './monitorTests';
+import { VehicleInfo } from './vehicleInfo';
+import { isEnumeratedValue } from './enumeratedPids';
+import { MonitorStatusReport, ReadinessOptions, ReadinessReport, combineMonitorStatus, evaluateReadiness } from './readiness';
+
+export { Transport } from './transport';
+export { BluetoothTransport } from './bluetoothTransport';
+export { TcpTransport } from './tcpTransport';
+export { SerialTransport, SerialPortLike } from './serialTransport';
+export { LoopbackTransport, LoopbackResponder } from './loopbackTransport';
+export { ReplayTransport, ReplayOptions } from './replayTransport';
+export { SessionRecorder, SessionLogEntry, SessionLogHeader, SessionLogOutput, parseSessionLog } from './sessionRecorder';
+export { CommandScheduler, CommandPriority, ScheduledCommand, SchedulerStats } from './commandScheduler';
+export { PollScheduler, PollerOptions, PollerStatus, PollTarget } from './pollScheduler';
+export { DiagnosticTroubleCode, decodeDTCCode } from './dtc';
+export { describeDTC } from './dtcDescriptions';
+export { PidDefinition, PidConverter, PidRegistry, PidName, PidValue, pidRegistry, decodePid } from './pidRegistry';
+export { Unit, UnitInfo, UnitProfile, ConvertedValue, units, unitProfiles, convertUnit, applyUnitProfile, formatValue } from './units';
+export { assembleResponse, ResponseMessage, AssembleOptions } from './responseAssembler';
+export { DataExporter, ExportFormat, ExportOptions, ExportOutput } from './dataExporter';
+export { TripComputer, TripStats, TripComputerOptions } from './tripComputer';
+export { AdapterInfo } from './adapterInfo';
+export { OBDError, OBDErrorCode, AdapterError, ConnectionError, RequestError, adapterErrorCode } from './errors';
+export { MonitorTests, MonitorTestResult, decodeMonitorTests, monitorName, monitorTestName } from './monitorTests';
+export { EnumeratedValue, OxygenSensorLocations, isEnumeratedValue, fuelSystemStatus, secondaryAirStatus, obdStandards, fuelTypes, emissionRequirements } from './enumeratedPids';
+export { VehicleInfo, InUsePerformance, MonitorPerformance, sparkPerformanceMonitors, compressionPerformanceMonitors } from './vehicleInfo';
+export { IgnitionType, MonitorStatus, MonitorStatusReport, ReadinessOptions, ReadinessReport, continuousMonitors, sparkMonitors, compressionMonitors, decodeMonitorStatus, combineMonitorStatus, evaluateReadiness } from './readiness';
+export { ELM327Emulator, ELM327EmulatorOptions, EmulatedValue, EmulatedFreezeFrame, EmulatedEcu, EmulatedMonitorTest } from './elm327Emulator';
 
 const writeDelay = 50;
 
 /**
- * Queue for writing
- * @type {Array}
+ * Number of mode 01 PIDs an ELM327 accepts in one request on CAN.
+ */
+const maxBatchedPids = 6;
+
+/**
+ * Highest PID with a bitmap of supported PIDs (C1-E0).
+ */
+const lastBitmapPid = 0xC0;
+
+/**
+ * Default time in ms to wait for the '>' prompt after a command was written.
+ */
+const defaultCommandTimeout = 5000;
+
+/**
+ * Options for a single request.
+ */
+export interface RequestOptions {
+    /**
+     * Time in ms to wait for the response. Defaults to OBDReader.commandTimeout.
+     */
+    timeout?: number;
+    /**
+     * Defaults to CommandPriority.Normal. Pollers use CommandPriority.Low.
+     */
+    priority?: CommandPriority;
+}
+
+/**
+ * Lifecycle of the connection to the adapter:
+ *  - disconnected: No link, either never connected or closed with disconnect().
+ *  - connecting:   connect() is opening the link.
+ *  - initializing: The link is open, the init sequence (ATZ, ATE0, ...) is running.
+ *  - ready:        The adapter answered the init sequence.
+ *  - reconnecting: The link was lost, waiting to open it again. See autoReconnect.
  */
-const queue: Array<any> = [];
+export type ConnectionState = 'disconnected' | 'connecting' | 'initializing' | 'ready' | 'reconnecting';
+
+interface ReplyBase {
+    /**
+     * Address of the ECU that sent the reply. --! Only with headers on, see setHeaders().
+     */
+    ecu?: string;
+}
+
+/**
+ * A decoded PID, e.g. { kind: 'pid', mode: '41', pid: '0C', name: 'rpm', value: 1726 }.
+ * For the standard PIDs the type of value follows from the name, see PidValue and
+ * isPidReply().
+ */
+export interface PidReply<N extends string = string> extends ReplyBase {
+    kind: 'pid';
+    mode: string;
+    /**
+     * Undefined for modes without a PID, like 04.
+     */
+    pid: string;
+    name: N;
+    value: N extends PidName ? PidValue<N> : unknown;
+    /**
+     * Freeze frame number. --! Only for mode 02 replies.
+     */
+    frame?: number;
+    /**
+     * Canonical unit of value. --! Only for PIDs with a unit.
+     */
+    unit?: Unit;
+    /**
+     * The value in the units of OBDReader.unitProfile. --! Only for PIDs with a unit.
+     */
+    converted?: ConvertedValue;
+}
+
+/**
+ * A line of the adapter that isn't vehicle data: "OK", "SEARCHING..." or an error message
+ * like "NO DATA".
+ */
+export interface StatusReply extends ReplyBase {
+    kind: 'status';
+    value: string;
+    /**
+     * Code of the error message in value, e.g. 'CAN_ERROR'. --! Only for error responses.
+     */
+    error?: OBDErrorCode;
+    mode?: undefined;
+    pid?: undefined;
+    name?: undefined;
+}
+
+/**
+ * Trouble codes of one ECU, the answer to mode 03, 07 or 0A.
+ */
+export interface DtcReply extends ReplyBase {
+    kind: 'dtc';
+    /**
+     * 43 (stored), 47 (pending) or 4A (permanent).
+     */
+    mode: string;
+    pid?: undefined;
+    name: 'requestdtc' | 'pendingdtc' | 'permanentdtc';
+    value: DiagnosticTroubleCode[];
+}
+
+export interface VinReply extends ReplyBase {
+    kind: 'vin';
+    mode: '49';
+    pid: '02';
+    name: 'vin';
+    value: string;
+}
+
+/**
+ * Vehicle data without a definition in pidRegistry.
+ */
+export interface UnknownReply extends ReplyBase {
+    kind: 'unknown';
+    /**
+     * Undefined for data that isn't a positive response.
+     */
+    mode: string;
+    pid?: string;
+    name?: undefined;
+    value?: undefined;
+}
+
+/**
+ * A parsed response line. Tell the kinds apart with kind.
+ */
+export type OBDReply = PidReply | StatusReply | DtcReply | VinReply | UnknownReply;
+
+/**
+ * The reply to a request for the standard PID N.
+ */
+export type ReplyOf<N extends PidName> =
+    N extends VinReply['name'] ? VinReply :
+    N extends DtcReply['name'] ? DtcReply :
+    PidReply<N>;
+
+/**
+ * Checks whether a reply is the PID with the given name, and narrows its value type:
+ *
+ *     reader.on('dataReceived', reply => {
+ *         if (isPidReply(reply, 'rpm')) {
+ *             gauge.set(reply.value); //number
+ *         }
+ *     });
+ * @param {OBDReply} reply Any reply.
+ * @param {string} name Name of a standard PID.
+ */
+export function isPidReply<N extends PidName>(reply: OBDReply, name: N): reply is PidReply<N> {
+    return reply.kind === 'pid' && reply.name === name;
+}
+
+/**
+ * Events of OBDReader, with their listener signatures.
+ */
+export interface OBDReaderEvents {
+    /**
+     * The link is open, the init sequence is queued. Not emitted for reconnects.
+     */
+    connected: () => void;
+    /**
+     * The adapter answered the init sequence, also after a reconnect.
+     */
+    ready: () => void;
+    stateChange: (state: ConnectionState, previous: ConnectionState) => void;
+    /**
+     * Every parsed reply, including those to pollers and AT commands.
+     */
+    dataReceived: (reply: OBDReply) => void;
+    debug: (message: string) => void;
+    error: (error: OBDError) => void;
+    pidsDiscovered: (supportedPids: { [ecu: string]: string[] }) => void;
+    adapterInfo: (info: AdapterInfo) => void;
+    /**
+     * The pollers ask for more requests per second than the adapter answers.
+     */
+    ratesUnmet: (requestedRate: number, capacity: number) => void;
+}
+
+/**
+ * Typed overloads of the EventEmitter methods, see OBDReaderEvents.
+ */
+export interface OBDReader {
+    on<E extends keyof OBDReaderEvents>(event: E, listener: OBDReaderEvents[E]): this;
+    once<E extends keyof OBDReaderEvents>(event: E, listener: OBDReaderEvents[E]): this;
+    addListener<E extends keyof OBDReaderEvents>(event: E, listener: OBDReaderEvents[E]): this;
+    prependListener<E extends keyof OBDReaderEvents>(event: E, listener: OBDReaderEvents[E]): this;
+    removeListener<E extends keyof OBDReaderEvents>(event: E, listener: OBDReaderEvents[E]): this;
+    emit<E extends keyof OBDReaderEvents>(event: E, ...args: Parameters<OBDReaderEvents[E]>): boolean;
+}
 
 export class OBDReader extends EventEmitter {
+    /**
+     * Whether the link to the adapter is open. See state for the whole lifecycle.
+     */
     connected: boolean = false;
+    state: ConnectionState = 'disconnected';
+    /**
+     * Whether a lost connection is opened again. Pollers and polling are restored afterwards.
+     */
+    autoReconnect = true;
+    /**
+     * Delay in ms before the first reconnect attempt. Doubles with every failed attempt.
+     */
+    reconnectDelay = 1000;
+    maxReconnectDelay = 30000;
+    /**
+     * Reconnect attempts before giving up and going to 'disconnected'.
+     */
+    maxReconnectAttempts = Infinity;
+    /**
+     * Time in ms to wait for the prompt after ATZ. Without one the adapter isn't there, and
+     * the connection counts as lost.
+     */
+    initTimeout = 5000;
     receivedData = '';
     protocol = '0';
-    btSerial: BSP.BluetoothSerialPort
-    intervalWriter: number;
+    /**
+     * Whether the adapter prints headers, so replies carry the address of their ECU.
+     * Change it with setHeaders().
+     */
+    headers = false;
+    /**
+     * Request identifier set with setTargetEcu(), undefined while requests go to all ECUs.
+     */
+    targetEcu: string;
+    transport: Transport;
+    commandTimeout = defaultCommandTimeout;
+    scheduler: CommandScheduler;
+    /**
+     * Whether probeAdapter() runs right after connecting.
+     */
+    probeAdapterOnConnect = true;
+    /**
+     * What the adapter reported about itself. Undefined until probeAdapter() has finished.
+     */
+    adapterInfo: AdapterInfo;
+    /**
+     * Whether discoverSupportedPids() runs right after connecting.
+     */
+    discoverPidsOnConnect = true;
+    /**
+     * Whether pollers for PIDs the vehicle doesn't support are dropped. When false they are
+     * only reported with a 'debug' event.
+     */
+    skipUnsupportedPids = true;
+    /**
+     * Supported mode 01 and 09 PIDs by ECU address, as "010C", "0902", ... Undefined until
+     * discoverSupportedPids() has finished. Without headers all PIDs are keyed "unknown".
+     */
+    supportedPids: { [ecu: string]: string[] };
+    /**
+     * Protocol the adapter found the vehicle on (ATDPN), e.g. "6". Undefined until
+     * detectProtocol() has run, which happens after the PID discovery or the first answered
+     * poller.
+     */
+    detectedProtocol: string;
+    /**
+     * Units replies are converted to, see OBDReply.converted. unitProfiles has metric, us
+     * and uk profiles.
+     */
+    unitProfile: UnitProfile = unitProfiles.metric;
+    /**
+     * BCP 47 locale used by formatReply(). Defaults to the system locale.
+     */
+    locale: string;
+
+    private reconnectAttempts = 0;
+    private reconnectTimer: number;
+    /**
+     * Interval given to startPolling(), restored after a reconnect.
+     */
+    private pollingInterval: number;
+    private resumePolling = false;
+    /**
+     * Whether probeAdapter() is waiting for the adapter.
+     */
+    private probing = false;
+    /**
+     * Listeners of the current transport, see connect().
+     */
+    private onTransportData = (data: string) => {
+        const arrayOfCommands = (this.receivedData + data.toString()).split('>'); // making sure it's a utf8 string
+
+        //Everything after the last prompt belongs to a response that is still coming in.
+        this.receivedData = arrayOfCommands.pop();
+
+        for (let commandNumber = 0; commandNumber < arrayOfCommands.length; commandNumber++) {
+            const multipleMessages = arrayOfCommands[commandNumber].split(/[\r\n]/).filter(messageString => messageString !== '');
+            const replies = this.parse(multipleMessages);
+            for (let replyNumber = 0; replyNumber < replies.length; replyNumber++) {
+                //Event dataReceived.
+                this.emit('dataReceived', replies[replyNumber]);
+            }
+            //Every prompt ends the response to the command that was written last.
+            this.scheduler.onPrompt(multipleMessages);
+        }
+    };
+    private onTransportFailure = (error: any) => {
+        this.emit('error', new ConnectionError('Error with OBD-II device: ' + error, 'TRANSPORT_FAILURE', undefined, error));
+        this.connectionLost('Transport failure: ' + error);
+    };
+    private onTransportClosed = () => {
+        this.connectionLost('Connection closed');
+    };
+
+    constructor() {
+        super();
+        this.scheduler = new CommandScheduler(message => {
+            this.transport.write(Buffer.from(message, 'utf-8'), (err) => {
+                //Writes still in flight fail with the link, which is handled already.
+                if (this.state === 'reconnecting' || this.state === 'disconnected') {
+                    return;
+                }
+                if (err) {
+                    this.emit('error', new ConnectionError('Error while writing: ' + err, 'WRITE_FAILED', message.trim(), err));
+                    this.connectionLost('Error while writing: ' + err);
+                }
+            });
+        });
+        this.scheduler.on('timeout', (command: ScheduledCommand) => {
+            this.emit('debug', 'No prompt received for ' + command.message.trim());
+        });
+        this.scheduler.on('writeError', (err: any, command: ScheduledCommand) => {
+            this.emit('error', new ConnectionError('Error while writing: ' + err, 'WRITE_FAILED', command.message.trim(), err));
+            this.connectionLost('Error while writing: ' + err);
+        });
+
+        this.pollScheduler = new PollScheduler(
+            () => this.activePollers.map(command => ({ command: command, options: this.pollerOptions[command] || {} })),
+            commands => new Promise<string[]>((resolve, reject) => {
+                //Batched mode 01 requests list the PIDs behind a single mode byte: "010C0D05".
+                const message = commands[0] + commands.slice(1).map(command => command.substr(2)).join('');
+                //Pollers go behind manual requests.
+                this.enqueue(message, 1, { priority: CommandPriority.Low }, lines => {
+                    const replies = this.parse(lines);
+                    const answered = commands.filter(command => replies.some(reply => isReplyTo(reply, command)));
+                    if (answered.length > 0 && this.detectedProtocol === undefined) {
+                        //The protocol search ran with this request, so batching can start with the next one.
+                        this.detectProtocol().catch((err: Error) => {
+                            this.emit('debug', 'Protocol detection failed: ' + err.message);
+                        });
+                    }
+                    resolve(answered);
+                }, reject);
+            }),
+            () => {
+                const latency = this.scheduler.getStats().averageLatency;
+                return latency > 0 ? 1000 / latency : Infinity;
+            },
+            //An ELM327 takes up to six mode 01 PIDs per request on CAN, clones often mix them up.
+            //Pollers only batch once a running probe has told the two apart.
+            () => this.isCanProtocol() && !this.probing && !(this.adapterInfo && this.adapterInfo.clone) ? maxBatchedPids : 1);
+        this.pollScheduler.on('ratesUnmet', (requestedRate: number, capacity: number) => {
+            this.emit('ratesUnmet', requestedRate, capacity);
+        });
+        this.pollScheduler.on('backoff', (command: string, delay: number) => {
+            this.emit('debug', 'NO DATA for poller ' + command + ', pausing it for ' + Math.round(delay) + 'ms.');
+        });
+    }
 
     /**
      * Set the protocol version number to use with your car.  Defaults to 0
@@ -28,8 +414,9 @@ export class OBDReader extends EventEmitter {
      * 
      */
     setProtocol(protocol: string) {
-        if (protocol.toString().search(/^[0-9]$/) === -1) {
-            throw "setProtocol: Must provide a number between 0 and 9 - refer to ATSP section of http://www.obdtester.com/elm-usb-commands";
+        protocol = protocol.toString().toUpperCase();
+        if (protocol.search(/^[0-9A-C]$/) === -1) {
+            throw new OBDError("setProtocol: Must provide a number between 0 and 9 or a letter between A and C - refer to ATSP section of http://www.obdtester.com/elm-usb-commands", 'INVALID_ARGUMENT');
         }
         this.protocol = protocol;
     }
@@ -51,7 +438,13 @@ export class OBDReader extends EventEmitter {
      */
     autoconnect(query: string) {
         const self = this; //Enclosure
-        const btSerial = new BSP.BluetoothSerialPort();
+        let btSerial: BluetoothTransport['btSerial'];
+        try {
+            btSerial = new (loadBluetoothSerialPort().BluetoothSerialPort)();
+        } catch (err) {
+            this.emit('error', new ConnectionError('Bluetooth is unavailable: ' + err.message, 'NO_DEVICE', undefined, err));
+            return;
+        }
         const search = new RegExp(query.replace(/\W/g, ''), 'gi');
 
         btSerial.on('found', (address: string, name: string) => {
@@ -67,7 +460,7 @@ export class OBDReader extends EventEmitter {
                     self.emit('debug', 'Found device channel: ' + channel);
                     self.connect(address, channel);
                 }, () => {
-                    console.log("Error finding serialport: ");
+                    self.emit('error', new ConnectionError('Error finding serialport of ' + name + ' (' + address + ')', 'NO_DEVICE'));
                 });
             } else {
                 self.emit('debug', 'Ignoring device: ' + name + ' (' + address + ')');
@@ -75,95 +468,43 @@ export class OBDReader extends EventEmitter {
         });
 
         btSerial.on('finished', function () {
-            self.emit('error', 'No suitable devices found');
+            self.emit('error', new ConnectionError('No suitable devices found', 'NO_DEVICE'));
         });
 
         btSerial.inquire();
     }
 
 
-    connect(address: string, channel: number) {
-        // const self = this; //Enclosure
-        const btSerial = new BSP.BluetoothSerialPort();
-
-        this.btSerial.connect(address, channel, () => {
-            this.connected = true;
-
-            this.write('ATZ');
-            //Turns off extra line feed and carriage return
-            this.write('ATL0');
-            //This disables spaces in in output, which is faster!
-            this.write('ATS0');
-            //Turns off headers and checksum to be sent.
-            this.write('ATH0');
-            //Turns off echo.
-            this.write('ATE0');
-            //Turn adaptive timing to 2. This is an aggressive learn curve for adjusting the timeout. Will make huge difference on slow systems.
-            this.write('ATAT2');
-            //Set timeout to 10 * 4 = 40msec, allows +20 queries per second. This is the maximum wait-time. ATAT will decide if it should wait shorter or not.
-            //self.write('ATST0A');
-            //http://www.obdtester.com/elm-usb-commands
-            this.write('ATSP' + this.protocol);
-
-            //Event connected
-            this.emit('connected');
-
-            this.btSerial.on('data', (data: string) => {
-                let currentString, arrayOfCommands;
-                currentString = this.receivedData + data.toString(); // making sure it's a utf8 string
-
-                arrayOfCommands = currentString.split('>');
-
-                let forString = '';
-                if (arrayOfCommands.length < 2) {
-                    this.receivedData = arrayOfCommands[0];
-                } else {
-                    for (let commandNumber = 0; commandNumber < arrayOfCommands.length; commandNumber++) {
-                        forString = arrayOfCommands[commandNumber];
-                        if (forString === '') {
-                            continue;
-                        }
-
-                        const multipleMessages = forString.split('\r');
-                        for (let messageNumber = 0; messageNumber < multipleMessages.length; messageNumber++) {
-                            const messageString = multipleMessages[messageNumber];
-                            if (messageString === '') {
-                                continue;
-                            }
-                            const reply = parseOBDCommand(messageString);
-                            //Event dataReceived.
-                            this.emit('dataReceived', reply);
-                            this.receivedData = '';
-                        }
-                    }
-                }
-            });
+    /**
+     * Connects to the adapter and runs the ELM327 init sequence.
+     * @param {string|Transport} addressOrTransport Bluetooth address of the adapter, or an already constructed Transport.
+     * @param {number} channel RFCOMM channel. Only used together with a Bluetooth address.
+     */
+    connect(address: string, channel: number): this;
+    connect(transport: Transport): this;
+    connect(addressOrTransport: string | Transport, channel?: number) {
+        const transport = typeof addressOrTransport === 'string' ?
+            new BluetoothTransport(addressOrTransport, channel) :
+            addressOrTransport;
 
-            btSerial.on('failure', (error: any) => {
-                this.emit('error', 'Error with OBD-II device: ' + error);
-            });
+        if (this.transport) {
+            //Replies of the previous transport would arrive twice otherwise.
+            this.transport.removeListener('data', this.onTransportData);
+            this.transport.removeListener('failure', this.onTransportFailure);
+            this.transport.removeListener('closed', this.onTransportClosed);
+        }
+        transport.on('data', this.onTransportData);
+        transport.on('failure', this.onTransportFailure);
+        transport.on('closed', this.onTransportClosed);
 
-        }, function (err) { //Error callback!
-            this.emit('error', 'Error with OBD-II device: ' + err);
-        });
+        this.transport = transport; //Save the connection in OBDReader object.
+        this.supportedPids = undefined; //Might be another vehicle.
+        this.detectedProtocol = undefined;
+        this.adapterInfo = undefined; //Or another adapter.
+        this.reconnectAttempts = 0;
 
-        this.btSerial = btSerial; //Save the connection in OBDReader object.
-
-        this.intervalWriter = setInterval(() => {
-            if (queue.length > 0 && this.connected)
-                try {
-                    this.btSerial.write(new Buffer(queue.shift(), "utf-8"), (err) => {
-                        if (err) {
-                            this.emit('error', err);
-                        }
-                    });
-                } catch (err) {
-                    this.emit('error', 'Error while writing: ' + err);
-                    this.emit('error', 'OBD-II Listeners deactivated, connection is probably lost.');
-                    clearInterval(this.intervalWriter);
-                    this.removeAllPollers();
-                }
-        }, writeDelay) as any as number; //Updated with Adaptive Timing on ELM327. 20 queries a second seems good enough.
+        this.setState('connecting');
+        this.open();
 
         return this;
     };
@@ -176,13 +517,170 @@ export class OBDReader extends EventEmitter {
      * @this {OBDReader}
      */
     disconnect(cb: Function) {
-        clearInterval(this.intervalWriter);
-        queue.length = 0; //Clears queue
+        //First, so the 'closed' event isn't taken for a lost connection.
+        this.setState('disconnected');
+        clearTimeout(this.reconnectTimer);
+        this.resumePolling = false;
+        this.stopPolling();
+        this.scheduler.stop(new ConnectionError('Disconnected', 'DISCONNECTED'));
+        if (!this.transport.isOpen()) {
+            //Lost already, there won't be another 'closed' event.
+            this.connected = false;
+            if (typeof cb === 'function') {
+                setImmediate(cb as () => void);
+            }
+            return;
+        }
         if (typeof cb === 'function') {
-            this.btSerial.on('closed', cb);
+            this.transport.once('closed', cb as () => void);
+        }
+        this.transport.close();
+        this.connected = false;
+    };
+
+    /**
+     * Opens the transport and runs the init sequence. Used by connect() and for reconnects.
+     * @this {OBDReader}
+     */
+    private open() {
+        this.transport.open(() => {
+            const reconnect = this.state === 'reconnecting';
+            this.connected = true;
+            this.receivedData = ''; //Leftovers of the lost connection.
+            this.setState('initializing');
+            this.scheduler.start();
+
+            this.initialize().then(() => {
+                this.reconnectAttempts = 0;
+                this.setState('ready');
+                if (this.resumePolling) {
+                    this.resumePolling = false;
+                    this.startPolling(this.pollingInterval);
+                }
+            }, (err: Error) => {
+                this.connectionLost('Initialization failed: ' + err.message);
+            });
+
+            if (!reconnect) {
+                //Event connected
+                this.emit('connected');
+            }
+        }, (err) => { //Error callback!
+            this.emit('error', new ConnectionError('Error with OBD-II device: ' + err, 'OPEN_FAILED', undefined, err));
+            if (this.state === 'reconnecting') {
+                this.scheduleReconnect();
+            } else {
+                this.setState('disconnected');
+            }
+        });
+    };
+
+    /**
+     * Queues the ELM327 init sequence, followed by the adapter probe and the PID discovery.
+     * @this {OBDReader}
+     * @return {Promise} Resolves once the adapter answered the init sequence.
+     */
+    private initialize(): Promise<void> {
+        //Nothing answers without an adapter, so the reset gets its own timeout.
+        const reset = this.sendAT('ATZ', { timeout: this.initTimeout });
+        //Turns off extra line feed and carriage return
+        this.write('ATL0');
+        //This disables spaces in in output, which is faster!
+        this.write('ATS0');
+        //Turns off headers and checksum to be sent, unless the ECU addresses were asked for.
+        this.write(this.headers ? 'ATH1' : 'ATH0');
+        //Turns off echo.
+        this.write('ATE0');
+        //Turn adaptive timing to 2. This is an aggressive learn curve for adjusting the timeout. Will make huge difference on slow systems.
+        //The probe sends it too, to find out whether the adapter supports it, and sends it again if it fails.
+        if (!this.probeAdapterOnConnect) {
+            this.write('ATAT2');
+        }
+        //Set timeout to 10 * 4 = 40msec, allows +20 queries per second. This is the maximum wait-time. ATAT will decide if it should wait shorter or not.
+        //self.write('ATST0A');
+        //http://www.obdtester.com/elm-usb-commands
+        const protocol = this.sendAT('ATSP' + this.protocol);
+
+        let probed = Promise.resolve();
+        if (this.probeAdapterOnConnect) {
+            probed = this.probeAdapter().then(() => undefined, (err: Error) => {
+                this.emit('debug', 'Adapter probe failed: ' + err.message);
+                //The probe may have stopped before ATAT2.
+                this.write('ATAT2');
+            });
+        }
+        if (this.discoverPidsOnConnect) {
+            probed.then(() => this.discoverSupportedPids()).then(() => this.detectProtocol()).catch((err: Error) => {
+                this.emit('debug', 'Supported PID discovery failed: ' + err.message);
+            });
         }
-        this.btSerial.close();
+
+        return Promise.all([reset, protocol]).then(() => undefined);
+    };
+
+    /**
+     * Handles a failed write, a transport failure or close that disconnect() didn't ask for,
+     * and an init sequence without answer. Keeps the pollers, so they can be restored.
+     * @this {OBDReader}
+     * @param {string} reason Sent with a 'debug' event.
+     */
+    private connectionLost(reason: string) {
+        //Already handled, or closed on purpose.
+        if (this.state === 'disconnected' || this.state === 'reconnecting') {
+            return;
+        }
+        this.emit('debug', 'Connection lost: ' + reason);
+        this.resumePolling = this.resumePolling || this.pollScheduler.isRunning();
+        this.pollScheduler.stop();
+        this.scheduler.stop(new ConnectionError('Connection lost', 'CONNECTION_LOST'));
         this.connected = false;
+
+        if (!this.autoReconnect) {
+            this.emit('error', new ConnectionError('OBD-II Listeners deactivated, connection is probably lost: ' + reason, 'CONNECTION_LOST'));
+            this.setState('disconnected');
+            return;
+        }
+        this.scheduleReconnect();
+        if (this.transport.isOpen()) {
+            //Half open links are opened from scratch.
+            this.transport.close();
+        }
+    };
+
+    /**
+     * Waits before the next reconnect attempt, twice as long after every failed one.
+     * @this {OBDReader}
+     */
+    private scheduleReconnect() {
+        if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+            this.emit('error', new ConnectionError('Reconnect failed after ' + this.reconnectAttempts + ' attempts.', 'RECONNECT_FAILED'));
+            this.resumePolling = false;
+            this.setState('disconnected');
+            return;
+        }
+        const delay = Math.min(this.reconnectDelay * Math.pow(2, this.reconnectAttempts), this.maxReconnectDelay);
+        this.reconnectAttempts++;
+        this.setState('reconnecting');
+        this.emit('debug', 'Reconnect attempt ' + this.reconnectAttempts + ' in ' + delay + 'ms.');
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = setTimeout(() => this.open(), delay) as any as number;
+    };
+
+    /**
+     * Emits 'stateChange' (state: ConnectionState, previous: ConnectionState) on every
+     * transition, and 'ready' () once the init sequence is done.
+     * @this {OBDReader}
+     */
+    private setState(state: ConnectionState) {
+        const previous = this.state;
+        if (state === previous) {
+            return;
+        }
+        this.state = state;
+        this.emit('stateChange', state, previous);
+        if (state === 'ready') {
+            this.emit('ready');
+        }
     };
 
     /**
@@ -193,24 +691,598 @@ export class OBDReader extends EventEmitter {
      * AT Messages --> Zero replies!!
      */
     write(message: string, replies?: number) {
-        if (replies === undefined) {
-            replies = 0;
+        this.enqueue(message, replies, {});
+    };
+
+    /**
+     * Requests a PID by name and resolves with the reply to exactly that request.
+     * Rejects with an AdapterError when the adapter answers NO DATA, ? or another error
+     * message, and with a RequestError when no prompt arrives in time.
+     * @this {OBDReader}
+     * @param {string} name Look into obdInfo.js for all PIDS.
+     * @param {RequestOptions} options Timeout and priority of the request.
+     */
+    query<N extends PidName>(name: N, options?: RequestOptions): Promise<ReplyOf<N>>;
+    query(name: string, options?: RequestOptions): Promise<OBDReply>;
+    query(name: string, options: RequestOptions = {}): Promise<OBDReply> {
+        const command = getPIDByName(name);
+        if (command === undefined) {
+            return Promise.reject(new RequestError('Unknown PID: ' + name, 'UNKNOWN_PID'));
         }
-        if (this.connected) {
-            if (queue.length < 256) {
-                if (replies !== 0) {
-                    queue.push(message + replies + '\r');
-                } else {
-                    queue.push(message + '\r');
+        return this.request(command, options).then(lines => {
+            const reply = this.parse(lines).filter(candidate => isReplyTo(candidate, command))[0];
+            if (!reply) {
+                throw responseError(command, lines);
+            }
+            return reply;
+        });
+    };
+
+    /**
+     * Requests a PID by name from all ECUs that answer it.
+     * @this {OBDReader}
+     * @param {string} name Look into obdInfo.js for all PIDS.
+     * @param {RequestOptions} options Timeout and priority of the request.
+     * @return {Promise} The replies by ECU address. Without headers (see setHeaders()) the
+     * ECUs can't be told apart, and the first reply is keyed "unknown".
+     */
+    queryByEcu<N extends PidName>(name: N, options?: RequestOptions): Promise<{ [ecu: string]: ReplyOf<N> }>;
+    queryByEcu(name: string, options?: RequestOptions): Promise<{ [ecu: string]: OBDReply }>;
+    queryByEcu(name: string, options: RequestOptions = {}): Promise<{ [ecu: string]: OBDReply }> {
+        const command = getPIDByName(name);
+        if (command === undefined) {
+            return Promise.reject(new RequestError('Unknown PID: ' + name, 'UNKNOWN_PID'));
+        }
+        return this.request(command, options).then(lines => {
+            const replies = this.parse(lines).filter(candidate => isReplyTo(candidate, command));
+            if (replies.length === 0) {
+                throw responseError(command, lines);
+            }
+            const byEcu: { [ecu: string]: OBDReply } = {};
+            replies.forEach(reply => {
+                const ecu = reply.ecu !== undefined ? reply.ecu : 'unknown';
+                if (!byEcu[ecu]) {
+                    byEcu[ecu] = reply;
                 }
-            } else {
-                this.emit('error', 'Queue-overflow!');
+            });
+            return byEcu;
+        });
+    };
+
+    /**
+     * Turns headers on or off (ATH1/ATH0). With headers on, every reply carries the address
+     * of the ECU that sent it. The setting survives reconnects.
+     * @this {OBDReader}
+     * @param {boolean} enabled Whether headers should be printed.
+     */
+    setHeaders(enabled: boolean): Promise<void> {
+        if (!this.connected) {
+            this.headers = enabled;
+            return Promise.resolve();
+        }
+        return this.sendAT(enabled ? 'ATH1' : 'ATH0', { priority: CommandPriority.High }).then(() => {
+            //Set once the adapter confirmed, responses to earlier commands still come without headers.
+            this.headers = enabled;
+        });
+    };
+
+    /**
+     * Sends the following requests to one ECU only and ignores answers from all others
+     * (ATSH/ATCRA). Only for CAN protocols.
+     * @this {OBDReader}
+     * @param {string} header Request identifier of the ECU, e.g. "7E0" for the engine or "7E1"
+     * for the transmission, or a 29-bit identifier like "18DA10F1".
+     * @param {string} responseHeader Identifier the ECU answers with. Defaults to the
+     * ISO 15765-4 pairing: "7E8" for "7E0", "18DAF110" for "18DA10F1".
+     */
+    setTargetEcu(header: string, responseHeader?: string): Promise<void> {
+        header = header.replace(/ /g, '').toUpperCase();
+        if (responseHeader === undefined) {
+            responseHeader = header.length === 3 ?
+                (parseInt(header, 16) + 8).toString(16).toUpperCase() :
+                header.substr(0, 4) + header.substr(6, 2) + header.substr(4, 2);
+        }
+        return this.sendAT('ATSH' + header, { priority: CommandPriority.High })
+            .then(() => this.sendAT('ATCRA' + responseHeader.replace(/ /g, '').toUpperCase(), { priority: CommandPriority.High }))
+            .then(() => {
+                this.targetEcu = header;
+            });
+    };
+
+    /**
+     * Sends requests to all ECUs again and accepts all answers.
+     * @this {OBDReader}
+     */
+    clearTargetEcu(): Promise<void> {
+        //Functional (broadcast) request identifiers of ISO 15765-4.
+        const header = this.targetEcu && this.targetEcu.length === 8 ? '18DB33F1' : '7DF';
+        return this.sendAT('ATSH' + header, { priority: CommandPriority.High })
+            .then(() => this.sendAT('ATCRA', { priority: CommandPriority.High }))
+            .then(() => {
+                this.targetEcu = undefined;
+            });
+    };
+
+    /**
+     * Asks every ECU which mode 01 and 09 PIDs it supports, by walking the bitmaps at PID 00,
+     * 20, 40, ... as far as each ECU says the next range is supported. The result is kept in
+     * supportedPids and used to check pollers, see addPoller().
+     * Emits 'pidsDiscovered' with the result.
+     * @this {OBDReader}
+     * @param {RequestOptions} options Timeout and priority of the bitmap requests.
+     * @return {Promise} The supported PIDs by ECU address.
+     */
+    discoverSupportedPids(options: RequestOptions = {}): Promise<{ [ecu: string]: string[] }> {
+        const supported: { [ecu: string]: string[] } = {};
+        return this.discoverPidRange('01', 0, undefined, supported, options)
+            //Vehicle information is optional before model year 2005, so don't fail without it.
+            .then(() => this.discoverPidRange('09', 0, undefined, supported, options).catch((): void => undefined))
+            .then(() => {
+                this.supportedPids = supported;
+                this.emit('pidsDiscovered', supported);
+                this.validatePollers();
+                return supported;
+            });
+    };
+
+    /**
+     * Reads the adapter's identification (ATI, AT@1), battery voltage (ATRV) and protocol
+     * (ATDP, ATDPN), and tries the header command and the timing commands ATAT2 and ATST.
+     * Adapters that claim a version with these commands but reject them are marked as clones,
+     * and get single PID requests only. Headers are turned off if the adapter rejects them, and
+     * pollers only tell adapters from v1.3 on how many responses to wait for. Runs on connect,
+     * see probeAdapterOnConnect.
+     *
+     * Emits 'adapterInfo' (info: AdapterInfo) when done.
+     * @this {OBDReader}
+     * @param {RequestOptions} options Timeout and priority of the requests.
+     * @return {Promise} The AdapterInfo, also stored in adapterInfo.
+     */
+    probeAdapter(options: RequestOptions = {}): Promise<AdapterInfo> {
+        this.probing = true;
+        return probeAdapter(command => this.sendAT(command, options), this.headers).then(info => {
+            this.probing = false;
+            this.adapterInfo = info;
+            if (this.headers && !info.headers) {
+                this.headers = false;
+                this.emit('debug', 'Adapter "' + info.identification + '" rejected ATH1, replies come without ECU addresses.');
             }
-        } else {
-            this.emit('error', 'Bluetooth device is not connected.');
+            if (/^[1-9A-C]$/.test(info.protocol)) {
+                this.detectedProtocol = info.protocol;
+            }
+            if (info.clone) {
+                this.emit('debug', 'Adapter "' + info.identification + '" rejected ' + info.rejectedCommands.join(', ') + ', probably a clone.');
+            }
+            this.emit('adapterInfo', info);
+            return info;
+        }, (err: Error) => {
+            this.probing = false;
+            throw err;
+        });
+    };
+
+    /**
+     * Asks the adapter which protocol it talks to the vehicle with (ATDPN). With automatic
+     * protocol selection (ATSP0) that is only known after the first OBD request.
+     * @this {OBDReader}
+     * @param {RequestOptions} options Timeout and priority of the request.
+     * @return {Promise} The protocol number, e.g. "6", or undefined if no protocol was found yet.
+     */
+    detectProtocol(options: RequestOptions = {}): Promise<string> {
+        return this.sendAT('ATDPN', options).then(answer => {
+            //"A6" means automatically selected protocol 6.
+            const protocol = answer.replace(/^A/, '');
+            this.detectedProtocol = /^[1-9A-C]$/.test(protocol) ? protocol : undefined;
+            return this.detectedProtocol;
+        });
+    };
+
+    /**
+     * Whether the vehicle talks CAN (ISO 15765-4 or user CAN). Uses the configured protocol
+     * until detectProtocol() has run.
+     * @this {OBDReader}
+     */
+    isCanProtocol(): boolean {
+        const protocol = this.detectedProtocol || this.protocol;
+        return ['6', '7', '8', '9', 'B', 'C'].indexOf(protocol) !== -1;
+    };
+
+    /**
+     * Checks a PID against the result of discoverSupportedPids().
+     * @this {OBDReader}
+     * @param {string} name Look into obdInfo.js for all PIDS.
+     * @return {boolean} Whether any ECU supports the PID. Undefined before the discovery and
+     * for PIDs of modes without bitmaps.
+     */
+    isPidSupported(name: string): boolean {
+        const command = getPIDByName(name);
+        return command === undefined ? undefined : this.isCommandSupported(command);
+    };
+
+    /**
+     * Sends an AT command and resolves with the adapter's answer, e.g. "12.6V" for ATRV.
+     * Rejects when the adapter answers ?, or when no prompt arrives in time.
+     * @this {OBDReader}
+     * @param {string} command The AT command. Without \r or \n!
+     * @param {RequestOptions} options Timeout and priority of the request.
+     */
+    sendAT(command: string, options: RequestOptions = {}): Promise<string> {
+        return this.request(command, options).then(lines => {
+            //Drop the echo, in case ATE0 hasn't been sent yet.
+            const answer = lines.filter(line => line !== command);
+            if (answer.some(line => adapterErrorCode(line) !== undefined)) {
+                throw responseError(command, lines);
+            }
+            return answer.join('\n');
+        });
+    };
+
+    /**
+     * Reads a PID from a freeze frame (mode 02), the snapshot an ECU stores when it sets a
+     * trouble code. The reply is decoded like the mode 01 PID of the same name.
+     * @this {OBDReader}
+     * @param {string} name Name of a mode 01 PID. Use "dtcfrzf" for the code that caused the frame.
+     * @param {number} frame Freeze frame number. Defaults to 0, the frame most ECUs store.
+     * @param {RequestOptions} options Timeout and priority of the request.
+     */
+    readFreezeFrame<N extends PidName>(name: N, frame?: number, options?: RequestOptions): Promise<PidReply<N>>;
+    readFreezeFrame(name: string, frame?: number, options?: RequestOptions): Promise<PidReply>;
+    readFreezeFrame(name: string, frame: number = 0, options: RequestOptions = {}): Promise<PidReply> {
+        const definition = pidRegistry.getByName(name);
+        if (!definition || definition.mode !== '01') {
+            return Promise.reject(new RequestError('Unknown PID: ' + name, 'UNKNOWN_PID'));
+        }
+        const command = '02' + definition.pid + ('0' + frame.toString(16).toUpperCase()).slice(-2);
+        return this.request(command, options).then(lines => {
+            const reply = this.parse(lines).filter((candidate): candidate is PidReply => candidate.kind === 'pid' && isReplyTo(candidate, command) && candidate.frame === frame)[0];
+            if (!reply) {
+                throw responseError(command, lines);
+            }
+            return reply;
+        });
+    };
+
+    /**
+     * Reads the confirmed trouble codes of all ECUs (mode 03).
+     * @this {OBDReader}
+     * @param {RequestOptions} options Timeout and priority of the request.
+     */
+    readStoredDTCs(options: RequestOptions = {}): Promise<DiagnosticTroubleCode[]> {
+        return this.readDTCs('03', options);
+    };
+
+    /**
+     * Reads the pending trouble codes of all ECUs (mode 07), detected during the current or
+     * last driving cycle but not confirmed yet.
+     * @this {OBDReader}
+     * @param {RequestOptions} options Timeout and priority of the request.
+     */
+    readPendingDTCs(options: RequestOptions = {}): Promise<DiagnosticTroubleCode[]> {
+        return this.readDTCs('07', options);
+    };
+
+    /**
+     * Reads the permanent trouble codes of all ECUs (mode 0A). These can't be cleared with
+     * clearDTCs(), the ECU erases them once the fault is gone.
+     * @this {OBDReader}
+     * @param {RequestOptions} options Timeout and priority of the request.
+     */
+    readPermanentDTCs(options: RequestOptions = {}): Promise<DiagnosticTroubleCode[]> {
+        return this.readDTCs('0A', options);
+    };
+
+    /**
+     * Clears the stored trouble codes and freeze frames and turns off the MIL (mode 04).
+     * Most ECUs only accept this with the engine off.
+     * @this {OBDReader}
+     * @param {RequestOptions} options Timeout and priority of the request.
+     */
+    clearDTCs(options: RequestOptions = {}): Promise<void> {
+        return this.request('04', options).then(lines => {
+            //The header, if on, is in front of the positive response: "7E8 01 44".
+            if (!this.assemble(lines).some(message => message.data.substr(0, 2) === '44')) {
+                throw responseError('04', lines);
+            }
+        });
+    };
+
+    /**
+     * Reads the emissions monitors of all ECUs (PID 01) and tells whether the vehicle would
+     * pass a typical I/M readiness check, see ReadinessReport. Adds the monitors of the current
+     * driving cycle (PID 41) where the vehicle supports them.
+     * @this {OBDReader}
+     * @param {ReadinessOptions} options Incomplete monitors allowed, and timeout and priority
+     * of the requests.
+     */
+    getReadinessReport(options: ReadinessOptions & RequestOptions = {}): Promise<ReadinessReport> {
+        const combine = (byEcu: { [ecu: string]: OBDReply }) =>
+            combineMonitorStatus(Object.keys(byEcu).map(ecu => byEcu[ecu].value as MonitorStatusReport));
+
+        return this.queryByEcu('dtc_cnt', options).then(byEcu => {
+            const report = evaluateReadiness(combine(byEcu), options);
+            if (this.isPidSupported('monitorstat') === false) {
+                return report;
+            }
+            return this.queryByEcu('monitorstat', options).then(current => {
+                report.thisDrivingCycle = combine(current);
+                return report;
+            }, () => report); //Optional, many older vehicles answer NO DATA.
+        });
+    };
+
+    /**
+     * Reads the vehicle information of all ECUs (mode 09): VIN, calibration IDs, calibration
+     * verification numbers, ECU name and in-use performance tracking. PIDs the vehicle doesn't
+     * support (see discoverSupportedPids()) aren't requested, and a PID an ECU doesn't answer
+     * is left out of its VehicleInfo.
+     * @this {OBDReader}
+     * @param {RequestOptions} options Timeout and priority of the requests.
+     * @return {Promise} The VehicleInfo by ECU address. Without headers (see setHeaders())
+     * the ECUs can't be told apart, and the first reply is keyed "unknown".
+     */
+    getVehicleInfo(options: RequestOptions = {}): Promise<{ [ecu: string]: VehicleInfo }> {
+        const fields: { name: string, field: keyof VehicleInfo }[] = [
+            { name: 'vin', field: 'vin' },
+            { name: 'calid', field: 'calibrationIds' },
+            { name: 'cvn', field: 'cvns' },
+            { name: 'ecuname', field: 'ecuName' },
+            { name: 'ipt_spark', field: 'inUsePerformance' },
+            { name: 'ipt_compression', field: 'inUsePerformance' }
+        ];
+        const info: { [ecu: string]: VehicleInfo } = {};
+        //One PID after the other, a PID without answer doesn't fail the others.
+        return fields.reduce((previous, entry) => previous.then(() => {
+            if (this.isPidSupported(entry.name) === false) {
+                return;
+            }
+            return this.queryByEcu(entry.name, options).then(byEcu => {
+                Object.keys(byEcu).forEach(ecu => {
+                    Object.assign(info[ecu] || (info[ecu] = {}), { [entry.field]: byEcu[ecu].value });
+                });
+            }, (err: Error) => {
+                this.emit('debug', 'No answer to ' + entry.name + ': ' + err.message);
+            });
+        }), Promise.resolve()).then(() => info);
+    };
+
+    /**
+     * Asks every ECU which on-board monitors it has test results for (mode 06), by walking
+     * the bitmaps at MID 00, 20, 40, ... --! Only on CAN, see readMonitorTests().
+     * @this {OBDReader}
+     * @param {RequestOptions} options Timeout and priority of the bitmap requests.
+     * @return {Promise} The supported monitor IDs by ECU address, e.g. { "7E8": ["01", "21"] }.
+     */
+    discoverMonitorIds(options: RequestOptions = {}): Promise<{ [ecu: string]: string[] }> {
+        const supported: { [ecu: string]: string[] } = {};
+        return this.requireCan('06', options)
+            .then(() => this.discoverPidRange('06', 0, undefined, supported, options))
+            .then(() => {
+                const mids: { [ecu: string]: string[] } = {};
+                Object.keys(supported).forEach(ecu => {
+                    //The bitmap MIDs don't have test results.
+                    mids[ecu] = supported[ecu].map(command => command.substr(2)).filter(mid => parseInt(mid, 16) % 0x20 !== 0);
+                });
+                return mids;
+            });
+    };
+
+    /**
+     * Reads the on-board monitoring test results (mode 06) of all supported monitors of all
+     * ECUs, e.g. the catalyst efficiency or misfire counts, with their limits. They show a
+     * monitor getting close to failing before it sets a trouble code.
+     * --! Only on CAN, the legacy protocols use a different format. Rejects with a
+     * RequestError UNSUPPORTED_PROTOCOL on other vehicles.
+     * @this {OBDReader}
+     * @param {RequestOptions} options Timeout and priority of the requests.
+     * @return {Promise} The results by monitor and ECU, ordered by monitor ID.
+     */
+    readMonitorTests(options: RequestOptions = {}): Promise<MonitorTests[]> {
+        return this.discoverMonitorIds(options).then(supported => {
+            const mids: string[] = [];
+            Object.keys(supported).forEach(ecu => supported[ecu].forEach(mid => {
+                if (mids.indexOf(mid) === -1) {
+                    mids.push(mid);
+                }
+            }));
+            mids.sort();
+
+            const results: MonitorTests[] = [];
+            //One monitor after the other, a monitor without results doesn't fail the others.
+            return mids.reduce((previous, mid) => previous.then(() => this.request('06' + mid, options).then(lines => {
+                this.assemble(lines).forEach(message => {
+                    decodeMonitorTests(message.data, message.ecu)
+                        .filter(group => group.mid === mid)
+                        .forEach(group => results.push(group));
+                });
+            }, (err: Error) => {
+                this.emit('debug', 'No test results for monitor ' + mid + ': ' + err.message);
+            })), Promise.resolve()).then(() => results);
+        });
+    };
+
+    /**
+     * Resolves once the protocol is known to be CAN. Sends a request to find it if the adapter
+     * selects it automatically and hasn't searched yet.
+     * @param {string} command The command that needs CAN, for the error.
+     */
+    private requireCan(command: string, options: RequestOptions): Promise<void> {
+        const known: Promise<any> = this.detectedProtocol || this.protocol !== '0' ? Promise.resolve() :
+            this.request('0100', options).then(() => this.detectProtocol(options));
+        return known.then(() => {
+            if (!this.isCanProtocol()) {
+                throw new RequestError('Mode ' + command.substr(0, 2) + ' needs a CAN protocol, the vehicle talks protocol ' +
+                    (this.detectedProtocol || this.protocol), 'UNSUPPORTED_PROTOCOL', command);
+            }
+        });
+    };
+
+    /**
+     * Reads one bitmap of supported PIDs and continues with the next range for the ECUs
+     * that support it.
+     * @param {string[]} ecus ECUs whose answers are used. Undefined for all.
+     */
+    private discoverPidRange(mode: string, base: number, ecus: string[], supported: { [ecu: string]: string[] }, options: RequestOptions): Promise<void> {
+        const command = mode + toHexByte(base);
+        return this.request(command, options).then(lines => {
+            const replies = this.parse(lines).filter(candidate => isReplyTo(candidate, command));
+            if (replies.length === 0) {
+                throw responseError(command, lines);
+            }
+
+            const continuing: string[] = [];
+            replies.forEach(reply => {
+                const ecu = reply.ecu !== undefined ? reply.ecu : 'unknown';
+                if (ecus && ecus.indexOf(ecu) === -1) {
+                    return;
+                }
+                const pids = supported[ecu] || (supported[ecu] = []);
+                const bits = reply.value as boolean[];
+                bits.forEach((isSupported, bit) => {
+                    const pid = mode + toHexByte(base + bit + 1);
+                    if (isSupported && pids.indexOf(pid) === -1) {
+                        pids.push(pid);
+                    }
+                });
+                //The last bit is the bitmap PID of the next range.
+                if (bits[31] && base + 0x20 <= lastBitmapPid && continuing.indexOf(ecu) === -1) {
+                    continuing.push(ecu);
+                }
+            });
+
+            if (continuing.length > 0) {
+                return this.discoverPidRange(mode, base + 0x20, continuing, supported, options);
+            }
+        });
+    };
+
+    /**
+     * @return {boolean} Whether any ECU supports the command, undefined if unknown.
+     */
+    private isCommandSupported(command: string): boolean {
+        const mode = command.substr(0, 2);
+        if (!this.supportedPids || (mode !== '01' && mode !== '09') || command.length !== 4) {
+            return undefined;
+        }
+        if (command.substr(2) === '00') {
+            return true; //Every ECU answers the first bitmap.
+        }
+        return Object.keys(this.supportedPids).some(ecu => this.supportedPids[ecu].indexOf(command) !== -1);
+    };
+
+    /**
+     * Reports active pollers for unsupported PIDs, and drops them if skipUnsupportedPids is set.
+     */
+    private validatePollers() {
+        this.activePollers.filter(command => this.isCommandSupported(command) === false).forEach(command => {
+            this.emit('debug', 'PID ' + command + ' is not supported by the vehicle' + (this.skipUnsupportedPids ? ', removing poller.' : '.'));
+            if (this.skipUnsupportedPids) {
+                this.activePollers.splice(this.activePollers.indexOf(command), 1);
+                delete this.pollerOptions[command];
+            }
+        });
+    };
+
+    private readDTCs(mode: string, options: RequestOptions): Promise<DiagnosticTroubleCode[]> {
+        const responseMode = (parseInt(mode, 16) + 0x40).toString(16).toUpperCase();
+        return this.request(mode, options).then(lines => {
+            const messages = this.assemble(lines);
+            if (!messages.some(message => message.data.substr(0, 2) === responseMode)) {
+                throw responseError(mode, lines);
+            }
+            return decodeDTCResponse(responseMode, messages);
+        });
+    };
+
+    /**
+     * Queues a command and resolves with the raw lines received before its prompt.
+     * @this {OBDReader}
+     * @param {string} message The PID or AT Command you want to send. Without \r or \n!
+     * @param {RequestOptions} options Timeout and priority of the request.
+     */
+    request(message: string, options: RequestOptions = {}): Promise<string[]> {
+        return new Promise<string[]>((resolve, reject) => {
+            this.enqueue(message, 0, options, resolve, reject);
+        });
+    };
+
+    /**
+     * Formats the converted value of a reply for display, e.g. "55 mph" or "1.234 rpm" in German.
+     * Replies with several values are formatted as "bank1: 1.2 psi, bank2: 1.3 psi".
+     * @this {OBDReader}
+     * @param {OBDReply} reply A reply with a unit.
+     */
+    formatReply(reply: OBDReply): string {
+        if (reply.kind !== 'pid' || !reply.converted) {
+            return String(reply.value);
         }
+        const converted = reply.converted;
+        const format = (value: any, unit: Unit): string => {
+            if (typeof value === 'number') {
+                return formatValue(value, unit, this.locale);
+            }
+            if (isEnumeratedValue(value)) {
+                return value.description; //The code is only for programs.
+            }
+            if (value && typeof value === 'object') {
+                return Object.keys(value)
+                    .filter(field => value[field] !== undefined)
+                    .map(field => field + ': ' + format(value[field], converted.fieldUnits && converted.fieldUnits[field] || unit))
+                    .join(', ');
+            }
+            return String(value);
+        };
+        return format(converted.value, converted.unit);
+    };
+
+    /**
+     * Parses response lines to replies, converted with the unit profile.
+     * @this {OBDReader}
+     */
+    private parse(lines: string[]): OBDReply[] {
+        return parseResponse(this.assemble(lines), this.unitProfile);
+    };
+
+    /**
+     * Groups response lines into messages with the current header settings.
+     * @this {OBDReader}
+     */
+    private assemble(lines: string[]): ResponseMessage[] {
+        return assembleResponse(lines, { headers: this.headers, protocol: this.detectedProtocol || this.protocol });
+    };
+
+    /**
+     * Returns throughput and latency figures of the command scheduler.
+     * @this {OBDReader}
+     */
+    getSchedulerStats(): SchedulerStats {
+        return this.scheduler.getStats();
     };
 
+    private enqueue(message: string, replies: number, options: RequestOptions, resolve?: (lines: string[]) => void, reject?: (err: Error) => void) {
+        let error: OBDError;
+        if (this.connected) {
+            const queued = this.scheduler.push({
+                //Older adapters take the response count for part of the request.
+                message: replies && (!this.adapterInfo || supportsResponseCount(this.adapterInfo)) ? message + replies + '\r' : message + '\r',
+                priority: options.priority !== undefined ? options.priority : CommandPriority.Normal,
+                timeout: options.timeout || this.commandTimeout,
+                resolve: resolve,
+                reject: reject
+            });
+            if (queued) {
+                return;
+            }
+            error = new RequestError('Queue-overflow!', 'QUEUE_OVERFLOW', message);
+        } else {
+            error = new ConnectionError('Bluetooth device is not connected.', 'NOT_CONNECTED', message);
+        }
+
+        if (reject) {
+            reject(error);
+        } else {
+            this.emit('error', error);
+        }
+    };
 
     /**
      * Writes a PID value by entering a pid supported name.
@@ -222,15 +1294,35 @@ export class OBDReader extends EventEmitter {
     };
 
     activePollers: string[] = [];
+    /**
+     * Rate and priority by poller, see addPoller().
+     */
+    pollerOptions: { [command: string]: PollerOptions } = {};
+    pollScheduler: PollScheduler;
 
     /**
-     * Adds a poller to the poller-array.
+     * Adds a poller to the poller-array. Once discoverSupportedPids() has run, PIDs the
+     * vehicle doesn't support are reported with a 'debug' event and, with
+     * skipUnsupportedPids, not added. Adding a poller again changes its options.
      * @this {OBDReader}
      * @param {string} name Name of the poller you want to add.
+     * @param {PollerOptions} options Rate and priority of the poller.
+     * @return {boolean} Whether the poller was added.
      */
-    addPoller(name: string) {
+    addPoller(name: string, options: PollerOptions = {}) {
         const stringToSend = getPIDByName(name);
-        this.activePollers.push(stringToSend);
+        if (this.isCommandSupported(stringToSend) === false) {
+            this.emit('debug', 'PID ' + name + ' is not supported by the vehicle' + (this.skipUnsupportedPids ? ', not adding poller.' : '.'));
+            if (this.skipUnsupportedPids) {
+                return false;
+            }
+        }
+        if (this.activePollers.indexOf(stringToSend) === -1) {
+            this.activePollers.push(stringToSend);
+        }
+        this.pollerOptions[stringToSend] = options;
+        this.pollScheduler.refresh();
+        return true;
     };
 
     /**
@@ -241,7 +1333,12 @@ export class OBDReader extends EventEmitter {
     removePoller(name: string) {
         const stringToDelete = getPIDByName(name);
         const index = this.activePollers.indexOf(stringToDelete);
+        if (index === -1) {
+            return; //splice(-1, 1) would remove the last poller.
+        }
         this.activePollers.splice(index, 1);
+        delete this.pollerOptions[stringToDelete];
+        this.pollScheduler.refresh();
     };
 
     /**
@@ -250,6 +1347,7 @@ export class OBDReader extends EventEmitter {
      */
     removeAllPollers() {
         this.activePollers.length = 0; //This does not delete the array, it just clears every element.
+        this.pollerOptions = {};
     };
 
     /**
@@ -259,24 +1357,28 @@ export class OBDReader extends EventEmitter {
     writePollers() {
         let i: number;
         for (i = 0; i < this.activePollers.length; i++) {
-            this.write(this.activePollers[i], 1);
+            //Pollers go behind manual requests.
+            this.enqueue(this.activePollers[i], 1, { priority: CommandPriority.Low });
         }
     };
 
-    pollerInterval: number;
     /**
-     * Starts polling. Lower interval than activePollers * 50 will probably give buffer overflows. See writeDelay.
+     * Starts polling. Every poller is sent at its own rate (see addPoller()), as far as the
+     * link keeps up: the next request is only written once the adapter answered the last one,
+     * so the queue doesn't grow. Emits 'ratesUnmet' (requestedRate, capacity) when the pollers
+     * ask for more requests per second than the adapter answers. Pollers that answer NO DATA
+     * are paused for longer and longer. See getPollerStatus().
+     * Pollers for unsupported PIDs are checked like in addPoller().
      * @this {OBDReader}
-     * @param {number} interval Frequency how often all variables should be polled. (in ms). If no value is given, then for each activePoller 75ms will be added.
+     * @param {number} interval Frequency how often variables without a rateHz should be polled. (in ms). If no value is given, then for each activePoller 100ms will be added.
      */
-    startPolling(interval: number) {
-        if (interval === undefined) {
-            interval = this.activePollers.length * (writeDelay * 2); //Double the delay, so there's room for manual requests.
+    startPolling(interval?: number) {
+        this.validatePollers();
+        this.pollingInterval = interval;
+        if (!(interval > 0)) {
+            interval = Math.max(this.activePollers.length, 1) * (writeDelay * 2); //Double the delay, so there's room for manual requests.
         }
-
-        this.pollerInterval = setInterval(() => {
-            this.writePollers();
-        }, interval) as any as number;
+        this.pollScheduler.start(1000 / interval);
     };
 
     /**
@@ -284,7 +1386,16 @@ export class OBDReader extends EventEmitter {
      * @this {OBDReader}
      */
     stopPolling() {
-        clearInterval(this.pollerInterval);
+        this.resumePolling = false;
+        this.pollScheduler.stop();
+    };
+
+    /**
+     * Returns target and achieved rate of every poller.
+     * @this {OBDReader}
+     */
+    getPollerStatus(): PollerStatus[] {
+        return this.pollScheduler.getStatus();
     };
 
 
@@ -298,40 +1409,117 @@ export class OBDReader extends EventEmitter {
  * @return {string} PID in hexadecimal ASCII
  */
 function getPIDByName(name: string): string {
-    let i: number;
-    for (i = 0; i < PIDS.length; i++) {
-        if (PIDS[i].name === name) {
-            if (PIDS[i].pid !== undefined) {
-                return (PIDS[i].mode + PIDS[i].pid);
+    //There are modes which don't require a extra parameter ID, those return just the mode.
+    return pidRegistry.getCommand(name);
+}
+
+/**
+ * Formats a number as two hexadecimal digits, e.g. 10 --> "0A".
+ */
+function toHexByte(value: number): string {
+    return ('0' + value.toString(16).toUpperCase()).slice(-2);
+}
+
+/**
+ * Checks whether a reply answers the given request, e.g. "410C..." answers "010C".
+ * @param {OBDReply} reply Parsed reply.
+ * @param {string} command The request in hexadecimal ASCII.
+ */
+function isReplyTo(reply: OBDReply, command: string): boolean {
+    if (reply.mode === undefined) {
+        return false;
+    }
+    const responseMode = (parseInt(command.substr(0, 2), 16) + 0x40).toString(16).toUpperCase();
+    //Mode 02 requests end with the frame number, manufacturer PIDs can be two bytes long.
+    const pid = (command.substr(0, 2) === '02' ? command.substr(2, 2) : command.substr(2)).toUpperCase();
+    return reply.mode === responseMode && (pid === '' || reply.pid === pid);
+}
+
+/**
+ * Builds the error for a response that didn't contain the requested data.
+ * @param {string} command The command that was sent.
+ * @param {string[]} lines The lines received before the prompt.
+ */
+function responseError(command: string, lines: string[]): OBDError {
+    const errorLine = lines.filter(line => adapterErrorCode(line) !== undefined)[0];
+    if (errorLine !== undefined) {
+        return new AdapterError(adapterErrorCode(errorLine), command, errorLine.trim());
+    }
+    return new RequestError('Unexpected response to ' + command + ': ' + lines.join(' '), 'UNEXPECTED_RESPONSE', command);
+}
+
+/**
+ * Parses the messages of a response.
+ * @param {ResponseMessage[]} messages The assembled response, see assembleResponse().
+ * @param {UnitProfile} profile Units the values are converted to.
+ * @return {OBDReply[]} One reply per message.
+ */
+function parseResponse(messages: ResponseMessage[], profile: UnitProfile): OBDReply[] {
+    const replies: OBDReply[] = [];
+    messages.forEach(message => {
+        splitMultiPidResponse(message.data).forEach(data => {
+            const reply = parseOBDCommand(data);
+            if (message.ecu !== undefined) {
+                reply.ecu = message.ecu;
+            }
+            const definition = reply.kind === 'pid' ? pidRegistry.getByName(reply.name) : undefined;
+            if (reply.kind === 'pid' && definition && definition.unit && reply.value !== undefined) {
+                reply.unit = definition.unit;
+                reply.converted = applyUnitProfile(reply.value, definition.unit, profile, definition.name, definition.fieldUnits);
             }
-            //There are modes which don't require a extra parameter ID.
-            return (PIDS[i].mode);
+            replies.push(reply);
+        });
+    });
+    return replies;
+}
+
+/**
+ * Splits the response to a request for several mode 01 PIDs (e.g. "410C1AF80D00") into one
+ * response per PID ("410C1AF8", "410D00"), using the byte count of each PID definition.
+ * Responses with a single PID, and the rest after an unknown PID, are left as they are.
+ * @param {string} data A message in hexadecimal ASCII.
+ */
+function splitMultiPidResponse(data: string): string[] {
+    if (data.substr(0, 2) !== '41') {
+        return [data];
+    }
+    const parts: string[] = [];
+    let position = 2;
+    while (position < data.length) {
+        const definition = pidRegistry.getByCommand('01' + data.substr(position, 2));
+        const end = definition ? position + 2 + definition.bytes * 2 : data.length;
+        if (!definition || end > data.length || (parts.length === 0 && end === data.length)) {
+            //Single PID, unknown PID or too short: the rest stays one response.
+            parts.push('41' + data.substring(position));
+            break;
         }
+        parts.push('41' + data.substring(position, end));
+        position = end;
     }
+    return parts;
 }
 
 /**
- * Parses a hexadecimal string to a reply object. Uses PIDS. (obdInfo.js)
+ * Parses a hexadecimal string to a reply object. Uses the PID definitions of pidRegistry.
  * @param {string} hexString Hexadecimal value in string that is received over the serialport.
- * @return {Object} reply - The reply.
+ * @return {OBDReply} reply - The reply, see its kind.
  * @return {string} reply.value - The value that is already converted. This can be a PID converted answer or "OK" or "NO DATA".
+ * @return {string} reply.error - Code of an error message like "NO DATA" or "CAN ERROR". --! Only for status replies.
  * @return {string} reply.name - The name. --! Only if the reply is a PID.
- * @return {string} reply.mode - The mode of the PID. --! Only if the reply is a PID.
- * @return {string} reply.pid - The PID. --! Only if the reply is a PID.
+ * @return {string} reply.mode - The mode of the PID. --! Only if the reply is vehicle data.
+ * @return {string} reply.pid - The PID. --! Only if the reply is vehicle data of a mode with PIDs.
  */
-function parseOBDCommand(hexString: string): object {
+function parseOBDCommand(hexString: string): OBDReply {
     let byteNumber;
 
-    const reply: {
-        value: string | number;
-        mode: string;
-        pid: string;
-        name: string
-    } = {} as any;
-    if (hexString === "NO DATA" || hexString === "OK" || hexString === "?" || hexString === "UNABLE TO CONNECT" || hexString === "SEARCHING...") {
-        //No data or OK is the response, return directly.
-        reply.value = hexString;
-        return reply;
+    if (!/^[0-9A-F ]*$/i.test(hexString)) {
+        //Error messages, OK, SEARCHING... and other text, return directly.
+        const status: StatusReply = { kind: 'status', value: hexString };
+        const error = adapterErrorCode(hexString);
+        if (error !== undefined) {
+            status.error = error;
+        }
+        return status;
     }
 
     hexString = hexString.replace(/ /g, ''); //Whitespace trimming //Probably not needed anymore?
@@ -341,38 +1529,43 @@ function parseOBDCommand(hexString: string): object {
         valueArray.push(hexString.substr(byteNumber, 2));
     }
 
-    if (valueArray[0] === "41") {
-        reply.mode = valueArray[0];
-        reply.pid = valueArray[1];
-        for (let i = 0; i < PIDS.length; i++) {
-            if (PIDS[i].pid == reply.pid) {
-                const numberOfBytes = PIDS[i].bytes;
-                reply.name = PIDS[i].name;
-                switch (numberOfBytes) {
-                    case 1:
-                        reply.value = (PIDS[i] as any).convertToUseful(valueArray[2]);
-                        break;
-                    case 2:
-                        reply.value = (PIDS[i] as any).convertToUseful(valueArray[2], valueArray[3]);
-                        break;
-                    case 4:
-                        reply.value = (PIDS[i] as any).convertToUseful(valueArray[2], valueArray[3], valueArray[4], valueArray[5]);
-                        break;
-                    case 8:
-                        reply.value = (PIDS[i] as any).convertToUseful(valueArray[2], valueArray[3], valueArray[4], valueArray[5], valueArray[6], valueArray[7], valueArray[8], valueArray[9]);
-                        break;
-                }
-                break; //Value is converted, break out the for loop.
-            }
+    const unknown: UnknownReply = { kind: 'unknown', mode: undefined };
+    if (valueArray[0] === "41" || valueArray[0] === "42") {
+        unknown.mode = valueArray[0];
+        unknown.pid = valueArray[1];
+        const definition = pidRegistry.getByCommand("01" + unknown.pid);
+        if (!definition) {
+            return unknown;
         }
-    } else if (valueArray[0] === "43") {
-        reply.mode = valueArray[0];
-        for (let i = 0; i < PIDS.length; i++) {
-            if (PIDS[i].mode == "03") {
-                reply.name = PIDS[i].name;
-                reply.value = (PIDS[i] as any).convertToUseful(valueArray[1], valueArray[2], valueArray[3], valueArray[4], valueArray[5], valueArray[6]);
-            }
+        const reply: PidReply = { kind: 'pid', mode: unknown.mode, pid: unknown.pid, name: definition.name, value: undefined };
+        //Mode 02 data is laid out like mode 01, with the freeze frame number in front.
+        let data = valueArray.slice(2);
+        if (valueArray[0] === "42") {
+            reply.frame = parseInt(valueArray[2], 16);
+            data = valueArray.slice(3);
+        }
+        reply.value = decodePid(definition, data.slice(0, definition.bytes));
+        return reply;
+    } else if (/^[4-7][0-9A-F]$/.test(valueArray[0])) {
+        //Positive responses of the other modes, e.g. 49 (vehicle information), 43 (trouble
+        //codes, no PID) or 62 (manufacturer PIDs, two byte PID).
+        const requestMode = ('0' + (parseInt(valueArray[0], 16) - 0x40).toString(16).toUpperCase()).slice(-2);
+        const definition = pidRegistry.findForResponse(requestMode, valueArray.slice(1));
+        unknown.mode = valueArray[0];
+        if (!definition) {
+            return unknown;
+        }
+        const pidLength = (definition.pid || '').length / 2;
+        const pid = pidLength > 0 ? valueArray.slice(1, 1 + pidLength).join('') : undefined;
+        //Vehicle information and trouble codes are variable length, the converter gets all data bytes.
+        const value = decodePid(definition, valueArray.slice(1 + pidLength));
+        if (definition.name === 'vin') {
+            return { kind: 'vin', mode: '49', pid: '02', name: 'vin', value: value as string };
+        }
+        if (['03', '07', '0A'].indexOf(requestMode) !== -1) {
+            return { kind: 'dtc', mode: unknown.mode, name: definition.name as DtcReply['name'], value: value as DiagnosticTroubleCode[] };
         }
+        return { kind: 'pid', mode: unknown.mode, pid: pid, name: definition.name, value: value };
     }
-    return reply;
+    return unknown;
 }
\ No newline at end of file
@@ -1,5 +1,17 @@
 'use strict';
 
+import { convertDTCRequest, decodeDTCCode, DiagnosticTroubleCode } from './dtc';
+import { describeDTC } from './dtcDescriptions';
+import { decodeMonitorStatus } from './readiness';
+import {
+    convertFuelSystem, convertSecondaryAirStatus, convertOxygenSensors, convertOxygenSensors4Banks, convertObdStandard,
+    convertAuxiliaryInput, convertFuelType, convertEmissionRequirements
+} from './enumeratedPids';
+import {
+    convertMessageCount, convertCalibrationIds, convertCalibrationVerificationNumbers, convertEcuName,
+    convertSparkPerformance, convertCompressionPerformance
+} from './vehicleInfo';
+
 function checkHex(n: string) {
     return /^[0-9A-Fa-f]{1,64}$/.test(n);
 }
@@ -31,75 +43,17 @@ function convertPIDSupported(byteA: string, byteB: string, byteC: string, byteD:
     });
     return pidStatus;
 }
-function convertFuelSystem(byteA: string, byteB: string) {
-    const reply = {
-        system1: bitDecoder(byteA),
-        system2: undefined as number
-    };
-    if (byteB) {
-        reply.system2 = bitDecoder(byteB);
-    }
-    return reply;
+function convertMonitorStatus(byteA: string, byteB: string, byteC: string, byteD: string) {
+    //Byte A is reserved in PID 41, the MIL and DTC count are only in PID 01.
+    return decodeMonitorStatus('00', byteB, byteC, byteD);
 }
-function convertDTCCheck(byteA: string, byteB: string, byteC: string, byteD: string) {
-    //ByteB, ByteC and ByteD are not read. These bytes are for testing purposes, which is not supported in this module.
-    let byteValue, mil, numberOfDTCs;
-    byteValue = parseInt(byteA, 16);
-    if ((byteValue >> 7) === 1) {
-        mil = 1;
-    } else {
-        mil = 0;
+function convertFreezeFrameDTC(byteA: string, byteB: string): DiagnosticTroubleCode {
+    const code = decodeDTCCode(byteA, byteB);
+    if (code === '-') {
+        //No freeze frame stored.
+        return null;
     }
-    numberOfDTCs = byteValue % 128;
-    const reply = {
-        numberOfErrors: numberOfDTCs,
-        mil: mil
-    };
-    return reply;
-}
-function convertDTCRequest(byteA: string, byteB: string, byteC: string, byteD: string, byteE: string, byteF: string) {
-    const reply = {
-        errors: [] as string[]
-    };
-
-    const decodeDTCCode = function (byte1: string, byte2: string) {
-        let codeString = "";
-        let firstChar = '';
-
-        //If 00 00 --> No code.
-        if ((byte1 === '00') && (byte2 === '00')) {
-            return '-';
-        }
-
-        const firstByte = parseInt(byte1, 16);
-        const firstCharBytes = firstByte >> 6;
-        switch (firstCharBytes) {
-            case 0:
-                firstChar = 'P';
-                break;
-            case 1:
-                firstChar = 'C';
-                break;
-            case 2:
-                firstChar = 'B';
-                break;
-            case 3:
-                firstChar = 'U';
-                break;
-            default:
-                console.log('Error with DTC');
-                break;
-        }
-        const secondChar = (firstByte >> 4) % 4;
-        const thirdChar = firstByte % 16;
-        codeString = firstChar + secondChar + thirdChar + byte2;
-        return codeString;
-    };
-
-    reply.errors[0] = decodeDTCCode(byteA, byteB);
-    reply.errors[1] = decodeDTCCode(byteC, byteD);
-    reply.errors[2] = decodeDTCCode(byteE, byteF);
-    return reply;
+    return { code: code, description: describeDTC(code) };
 }
 function convertLoad(byte: string) {
     return parseInt(byte, 16) * (100 / 256);
@@ -159,10 +113,16 @@ function convertPercentB(byte: string) {
 function convertDistanceSinceCodesCleared(byteA: string, byteB: string) {
     return (parseInt(byteA, 16) * 256) + parseInt(byteB, 16);
 }
+function convertWarmUps(byte: string) {
+    return parseInt(byte, 16);
+}
+function convertBarometricPressure(byte: string) {
+    return parseInt(byte, 16);
+}
 function convertLambda2(byteA: string, byteB: string, byteC: string, byteD: string) {
     const reply = {
         ratio: ((parseInt(byteA, 16) * 256) + parseInt(byteB, 16)) / 32768,
-        voltage: ((parseInt(byteC, 16) * 256) + parseInt(byteD, 16)) / 256 - 128
+        current: ((parseInt(byteC, 16) * 256) + parseInt(byteD, 16)) / 256 - 128
     };
     return reply;
 }
@@ -206,6 +166,11 @@ function convertExternalTestEquipment2(byteA: string, byteB: string, byteC: stri
 function convertAbsoluteVaporPressure(byteA: string, byteB: string) {
     return ((parseInt(byteA, 16) * 256) + parseInt(byteB, 16)) / 200;
 }
+function convertEvapVaporPressure(byteA: string, byteB: string) {
+    const value = (parseInt(byteA, 16) * 256) + parseInt(byteB, 16);
+    //Two's complement.
+    return (value >= 0x8000 ? value - 0x10000 : value) / 4;
+}
 function convertSystemVaporPressure(byteA: string, byteB: string) {
     return ((parseInt(byteA, 16) * 256) + parseInt(byteB, 16)) - 32767;
 }
@@ -230,56 +195,115 @@ function convertEngineTorque(byte: string) {
     return parseInt(byte, 16) - 125;
 }
 
+//Multi-sensor PIDs: byte A says which sensors are supported, unsupported sensors are undefined.
+function isSensorSupported(byteA: string, bit: number) {
+    return (parseInt(byteA, 16) >> bit) % 2 === 1;
+}
+function convertSensorTemperatures(byteA: string, ...bytes: string[]) {
+    return bytes.map((byte, sensor) => isSensorSupported(byteA, sensor) ? parseInt(byte, 16) - 40 : undefined);
+}
+function convertEngineCoolantTemperatures(byteA: string, byteB: string, byteC: string) {
+    const temperatures = convertSensorTemperatures(byteA, byteB, byteC);
+    return {
+        sensor1: temperatures[0],
+        sensor2: temperatures[1]
+    };
+}
+function convertEGRTemperatures(byteA: string, byteB: string, byteC: string, byteD: string, byteE: string) {
+    const temperatures = convertSensorTemperatures(byteA, byteB, byteC, byteD, byteE);
+    return {
+        bank1Sensor1: temperatures[0],
+        bank1Sensor2: temperatures[1],
+        bank2Sensor1: temperatures[2],
+        bank2Sensor2: temperatures[3]
+    };
+}
+function convertPressureWord(byteA: string, byteB: string, factor: number) {
+    return ((parseInt(byteA, 16) * 256) + parseInt(byteB, 16)) * factor;
+}
+function convertFuelPressureControl(...bytes: string[]) {
+    const support = bytes[0];
+    const system = (first: number, bit: number) => ({
+        commandedPressure: isSensorSupported(support, bit) ? convertPressureWord(bytes[first], bytes[first + 1], 10) : undefined,
+        pressure: isSensorSupported(support, bit + 1) ? convertPressureWord(bytes[first + 2], bytes[first + 3], 10) : undefined,
+        temperature: isSensorSupported(support, bit + 2) ? parseInt(bytes[first + 4], 16) - 40 : undefined
+    });
+    return {
+        system1: system(1, 0),
+        system2: system(6, 3)
+    };
+}
+function convertInjectionPressureControl(...bytes: string[]) {
+    const support = bytes[0];
+    const system = (first: number, bit: number) => ({
+        commandedPressure: isSensorSupported(support, bit) ? convertPressureWord(bytes[first], bytes[first + 1], 10) : undefined,
+        pressure: isSensorSupported(support, bit + 1) ? convertPressureWord(bytes[first + 2], bytes[first + 3], 10) : undefined
+    });
+    return {
+        systemA: system(1, 0),
+        systemB: system(5, 2)
+    };
+}
+function convertExhaustPressure(byteA: string, byteB: string, byteC: string, byteD: string, byteE: string) {
+    return {
+        bank1: isSensorSupported(byteA, 0) ? convertPressureWord(byteB, byteC, 0.01) : undefined,
+        bank2: isSensorSupported(byteA, 1) ? convertPressureWord(byteD, byteE, 0.01) : undefined
+    };
+}
+
+
 function convertExhastGasTemperature(byteA: string, byteB: string) {
     return (parseInt(byteA, 16) * 256 + parseInt(byteB, 16)) / 10 - 40;
 }
 //DTC
-function notSupported() {
-    console.log("There is no answer. This should not be happening.");
-    return;
+function convertDTCCleared() {
+    //Mode 04 answers with just the response mode, there is nothing to convert.
+    return true;
 }
 //VIN
-function convertVIN_count(byte: string) {
-    return byte;
-}
-function convertVIN(_byte: string) {
-    const byte = _byte.split("");
-    let tmp: number[] = [], vin = "";
-    for (let i in byte) {
-        tmp[i] = parseInt(byte[i]);
-        tmp[i] = parseInt(tmp[i] as any, 16);
-        vin += String.fromCharCode(tmp[i]);
-    }
+function convertVIN(...bytes: string[]) {
+    let vin = "";
+    bytes.forEach(function (byte) {
+        const charCode = parseInt(byte, 16);
+        //Skips the item count of CAN responses and the zero padding of legacy responses.
+        if (charCode >= 0x20 && charCode < 0x7F) {
+            vin += String.fromCharCode(charCode);
+        }
+    });
     return vin;
 }
 
 const modeRealTime = "01";
 const modeRequestDTC = "03";
 const modeClearDTC = "04";
+const modePendingDTC = "07";
+const modePermanentDTC = "0A";
 const modeVin = "09";
+const modeMonitorTests = "06";
 
+//As const keeps the names and converters of the entries, see PidName and PidValue in pidRegistry.ts.
 const responsePIDS = [
     //Realtime data
-    { mode: modeRealTime, pid: "00", bytes: 4, name: "pidsupp0", description: "PIDs supported 00-20", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: convertPIDSupported },
-    { mode: modeRealTime, pid: "01", bytes: 4, name: "dtc_cnt", description: "Monitor status since DTCs cleared", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: convertDTCCheck },
-    { mode: modeRealTime, pid: "02", bytes: 2, name: "dtcfrzf", description: "DTC that caused required freeze frame data storage", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: bitDecoder },
-    { mode: modeRealTime, pid: "03", bytes: 2, name: "fuelsys", description: "Fuel system 1 and 2 status", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: convertFuelSystem },
-    { mode: modeRealTime, pid: "04", bytes: 1, name: "load_pct", description: "Calculated LOAD Value", min: 0, max: 100, unit: "%", convertToUseful: convertLoad },
-    { mode: modeRealTime, pid: "05", bytes: 1, name: "temp", description: "Engine Coolant Temperature", min: -40, max: 215, unit: "Celsius", convertToUseful: convertTemp },
-    { mode: modeRealTime, pid: "06", bytes: 1, name: "shrtft13", description: "Short Term Fuel Trim - Bank 1,3", min: -100, max: 99.22, unit: "%", convertToUseful: convertFuelTrim },
-    { mode: modeRealTime, pid: "07", bytes: 1, name: "longft13", description: "Long Term Fuel Trim - Bank 1,3", min: -100, max: 99.22, unit: "%", convertToUseful: convertFuelTrim },
-    { mode: modeRealTime, pid: "08", bytes: 1, name: "shrtft24", description: "Short Term Fuel Trim - Bank 2,4", min: -100, max: 99.22, unit: "%", convertToUseful: convertFuelTrim },
-    { mode: modeRealTime, pid: "09", bytes: 1, name: "longft24", description: "Long Term Fuel Trim - Bank 2,4", min: -100, max: 99.22, unit: "%", convertToUseful: convertFuelTrim },
+    { mode: modeRealTime, pid: "00", bytes: 4, name: "pidsupp0", description: "PIDs supported 00-20", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertPIDSupported },
+    { mode: modeRealTime, pid: "01", bytes: 4, name: "dtc_cnt", description: "Monitor status since DTCs cleared", min: 0, max: 0, unit: "bitEncoded", convertToUseful: decodeMonitorStatus },
+    { mode: modeRealTime, pid: "02", bytes: 2, name: "dtcfrzf", description: "DTC that caused required freeze frame data storage", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertFreezeFrameDTC },
+    { mode: modeRealTime, pid: "03", bytes: 2, name: "fuelsys", description: "Fuel system 1 and 2 status", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertFuelSystem },
+    { mode: modeRealTime, pid: "04", bytes: 1, name: "load_pct", description: "Calculated LOAD Value", min: 0, max: 100, unit: "percent", convertToUseful: convertLoad },
+    { mode: modeRealTime, pid: "05", bytes: 1, name: "temp", description: "Engine Coolant Temperature", min: -40, max: 215, unit: "celsius", convertToUseful: convertTemp },
+    { mode: modeRealTime, pid: "06", bytes: 1, name: "shrtft13", description: "Short Term Fuel Trim - Bank 1,3", min: -100, max: 99.22, unit: "percent", convertToUseful: convertFuelTrim },
+    { mode: modeRealTime, pid: "07", bytes: 1, name: "longft13", description: "Long Term Fuel Trim - Bank 1,3", min: -100, max: 99.22, unit: "percent", convertToUseful: convertFuelTrim },
+    { mode: modeRealTime, pid: "08", bytes: 1, name: "shrtft24", description: "Short Term Fuel Trim - Bank 2,4", min: -100, max: 99.22, unit: "percent", convertToUseful: convertFuelTrim },
+    { mode: modeRealTime, pid: "09", bytes: 1, name: "longft24", description: "Long Term Fuel Trim - Bank 2,4", min: -100, max: 99.22, unit: "percent", convertToUseful: convertFuelTrim },
     { mode: modeRealTime, pid: "0A", bytes: 1, name: "frp", description: "Fuel Pressure", min: 0, max: 765, unit: "kPa", convertToUseful: convertFuelRailPressure },
     { mode: modeRealTime, pid: "0B", bytes: 1, name: "map", description: "Intake Manifold Absolute Pressure", min: 0, max: 255, unit: "kPa", convertToUseful: convertIntakePressure },
-    { mode: modeRealTime, pid: "0C", bytes: 2, name: "rpm", description: "Engine RPM", min: 0, max: 16383.75, unit: "rev/min", convertToUseful: convertRPM },
+    { mode: modeRealTime, pid: "0C", bytes: 2, name: "rpm", description: "Engine RPM", min: 0, max: 16383.75, unit: "rpm", convertToUseful: convertRPM },
     { mode: modeRealTime, pid: "0D", bytes: 1, name: "vss", description: "Vehicle Speed Sensor", min: 0, max: 255, unit: "km/h", convertToUseful: convertSpeed },
-    { mode: modeRealTime, pid: "0E", bytes: 1, name: "sparkadv", description: "Ignition Timing Advance for #1 Cylinder", min: -64, max: 63.5, unit: "degrees relative to #1 cylinder", convertToUseful: convertSparkAdvance },
-    { mode: modeRealTime, pid: "0F", bytes: 1, name: "iat", description: "Intake Air Temperature", min: -40, max: 215, unit: "Celsius", convertToUseful: convertTemp },
+    { mode: modeRealTime, pid: "0E", bytes: 1, name: "sparkadv", description: "Ignition Timing Advance for #1 Cylinder", min: -64, max: 63.5, unit: "degree", convertToUseful: convertSparkAdvance },
+    { mode: modeRealTime, pid: "0F", bytes: 1, name: "iat", description: "Intake Air Temperature", min: -40, max: 215, unit: "celsius", convertToUseful: convertTemp },
     { mode: modeRealTime, pid: "10", bytes: 2, name: "maf", description: "Air Flow Rate from Mass Air Flow Sensor", min: 0, max: 655.35, unit: "g/s", convertToUseful: convertAirFlowRate },
-    { mode: modeRealTime, pid: "11", bytes: 1, name: "throttlepos", description: "Absolute Throttle Position", min: 1, max: 100, unit: "%", convertToUseful: convertThrottlePos },
-    { mode: modeRealTime, pid: "12", bytes: 1, name: "air_stat", description: "Commanded Secondary Air Status", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: bitDecoder },
-    { mode: modeRealTime, pid: "13", bytes: 1, name: "o2sloc", description: "Location of Oxygen Sensors", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: bitDecoder },
+    { mode: modeRealTime, pid: "11", bytes: 1, name: "throttlepos", description: "Absolute Throttle Position", min: 1, max: 100, unit: "percent", convertToUseful: convertThrottlePos },
+    { mode: modeRealTime, pid: "12", bytes: 1, name: "air_stat", description: "Commanded Secondary Air Status", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertSecondaryAirStatus },
+    { mode: modeRealTime, pid: "13", bytes: 1, name: "o2sloc", description: "Location of Oxygen Sensors", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertOxygenSensors },
     { mode: modeRealTime, pid: "14", bytes: 2, name: "o2s11", description: "Bank 1 - Sensor 1/Bank 1 - Sensor 1 Oxygen Sensor Output Voltage / Short Term Fuel Trim", min: 0, max: 1.275, unit: "V", convertToUseful: convertOxygenSensorOutput },
     { mode: modeRealTime, pid: "15", bytes: 2, name: "o2s12", description: "Bank 1 - Sensor 2/Bank 1 - Sensor 2 Oxygen Sensor Output Voltage / Short Term Fuel Trim", min: 0, max: 1.275, unit: "V", convertToUseful: convertOxygenSensorOutput },
     { mode: modeRealTime, pid: "16", bytes: 2, name: "o2s13", description: "Bank 1 - Sensor 3/Bank 2 - Sensor 1 Oxygen Sensor Output Voltage / Short Term Fuel Trim", min: 0, max: 1.275, unit: "V", convertToUseful: convertOxygenSensorOutput },
@@ -288,101 +312,124 @@ const responsePIDS = [
     { mode: modeRealTime, pid: "19", bytes: 2, name: "o2s22", description: "Bank 2 - Sensor 2/Bank 3 - Sensor 2 Oxygen Sensor Output Voltage / Short Term Fuel Trim", min: 0, max: 1.275, unit: "V", convertToUseful: convertOxygenSensorOutput },
     { mode: modeRealTime, pid: "1A", bytes: 2, name: "o2s23", description: "Bank 2 - Sensor 3/Bank 4 - Sensor 1 Oxygen Sensor Output Voltage / Short Term Fuel Trim", min: 0, max: 1.275, unit: "V", convertToUseful: convertOxygenSensorOutput },
     { mode: modeRealTime, pid: "1B", bytes: 2, name: "o2s24", description: "Bank 2 - Sensor 4/Bank 4 - Sensor 2 Oxygen Sensor Output Voltage / Short Term Fuel Trim", min: 0, max: 1.275, unit: "V", convertToUseful: convertOxygenSensorOutput },
-    { mode: modeRealTime, pid: "1C", bytes: 1, name: "obdsup", description: "OBD requirements to which vehicle is designed", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: bitDecoder },
-    { mode: modeRealTime, pid: "1D", bytes: 1, name: "o2sloc2", description: "Location of oxygen sensors", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: bitDecoder },
-    { mode: modeRealTime, pid: "1E", bytes: 1, name: "pto_stat", description: "Auxiliary Input Status", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: bitDecoder },
-    { mode: modeRealTime, pid: "1F", bytes: 2, name: "runtm", description: "Time Since Engine Start", min: 0, max: 65535, unit: "seconds", convertToUseful: convertRuntime },
-    { mode: modeRealTime, pid: "20", bytes: 4, name: "piddsupp2", description: "PIDs supported 21-40", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: convertPIDSupported },
+    { mode: modeRealTime, pid: "1C", bytes: 1, name: "obdsup", description: "OBD requirements to which vehicle is designed", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertObdStandard },
+    { mode: modeRealTime, pid: "1D", bytes: 1, name: "o2sloc2", description: "Location of oxygen sensors", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertOxygenSensors4Banks },
+    { mode: modeRealTime, pid: "1E", bytes: 1, name: "pto_stat", description: "Auxiliary Input Status", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertAuxiliaryInput },
+    { mode: modeRealTime, pid: "1F", bytes: 2, name: "runtm", description: "Time Since Engine Start", min: 0, max: 65535, unit: "s", convertToUseful: convertRuntime },
+    { mode: modeRealTime, pid: "20", bytes: 4, name: "piddsupp2", description: "PIDs supported 21-40", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertPIDSupported },
     { mode: modeRealTime, pid: "21", bytes: 2, name: "mil_dist", description: "Distance Travelled While MIL is Activated", min: 0, max: 65535, unit: "km", convertToUseful: convertRuntime },
     { mode: modeRealTime, pid: "22", bytes: 2, name: "frpm", description: "Fuel Rail Pressure relative to manifold vacuum", min: 0, max: 5177.265, unit: "kPa", convertToUseful: convertfrpm },
     { mode: modeRealTime, pid: "23", bytes: 2, name: "frpd", description: "Fuel Rail Pressure (diesel)", min: 0, max: 655350, unit: "kPa", convertToUseful: convertfrpd },
-    { mode: modeRealTime, pid: "24", bytes: 4, name: "lambda11", description: "Bank 1 - Sensor 1/Bank 1 - Sensor 1 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda },
-    { mode: modeRealTime, pid: "25", bytes: 4, name: "lambda12", description: "Bank 1 - Sensor 2/Bank 1 - Sensor 2 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda },
-    { mode: modeRealTime, pid: "26", bytes: 4, name: "lambda13", description: "Bank 1 - Sensor 3 /Bank 2 - Sensor 1(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda },
-    { mode: modeRealTime, pid: "27", bytes: 4, name: "lambda14", description: "Bank 1 - Sensor 4 /Bank 2 - Sensor 2(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda },
-    { mode: modeRealTime, pid: "28", bytes: 4, name: "lambda21", description: "Bank 2 - Sensor 1 /Bank 3 - Sensor 1(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda },
-    { mode: modeRealTime, pid: "29", bytes: 4, name: "lambda22", description: "Bank 2 - Sensor 2 /Bank 3 - Sensor 2(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda },
-    { mode: modeRealTime, pid: "2A", bytes: 4, name: "lambda23", description: "Bank 2 - Sensor 3 /Bank 4 - Sensor 1(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda },
-    { mode: modeRealTime, pid: "2B", bytes: 4, name: "lambda24", description: "Bank 2 - Sensor 4 /Bank 4 - Sensor 2(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda },
-    { mode: modeRealTime, pid: "2C", bytes: 1, name: "egr_pct", description: "Commanded EGR", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "2D", bytes: 1, name: "egr_err", description: "EGR Error", min: -100, max: 99.22, unit: "%", convertToUseful: convertPercentB },
-    { mode: modeRealTime, pid: "2E", bytes: 1, name: "evap_pct", description: "Commanded Evaporative Purge", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "2F", bytes: 1, name: "fli", description: "Fuel Level Input", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "30", bytes: 1, name: "warm_ups", description: "Number of warm-ups since diagnostic trouble codes cleared", min: 0, max: 255, unit: "", convertToUseful: bitDecoder },
+    { mode: modeRealTime, pid: "24", bytes: 4, name: "lambda11", description: "Bank 1 - Sensor 1/Bank 1 - Sensor 1 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "ratio", fieldUnits: { voltage: "V" }, convertToUseful: convertLambda },
+    { mode: modeRealTime, pid: "25", bytes: 4, name: "lambda12", description: "Bank 1 - Sensor 2/Bank 1 - Sensor 2 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "ratio", fieldUnits: { voltage: "V" }, convertToUseful: convertLambda },
+    { mode: modeRealTime, pid: "26", bytes: 4, name: "lambda13", description: "Bank 1 - Sensor 3 /Bank 2 - Sensor 1(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "ratio", fieldUnits: { voltage: "V" }, convertToUseful: convertLambda },
+    { mode: modeRealTime, pid: "27", bytes: 4, name: "lambda14", description: "Bank 1 - Sensor 4 /Bank 2 - Sensor 2(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "ratio", fieldUnits: { voltage: "V" }, convertToUseful: convertLambda },
+    { mode: modeRealTime, pid: "28", bytes: 4, name: "lambda21", description: "Bank 2 - Sensor 1 /Bank 3 - Sensor 1(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "ratio", fieldUnits: { voltage: "V" }, convertToUseful: convertLambda },
+    { mode: modeRealTime, pid: "29", bytes: 4, name: "lambda22", description: "Bank 2 - Sensor 2 /Bank 3 - Sensor 2(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "ratio", fieldUnits: { voltage: "V" }, convertToUseful: convertLambda },
+    { mode: modeRealTime, pid: "2A", bytes: 4, name: "lambda23", description: "Bank 2 - Sensor 3 /Bank 4 - Sensor 1(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "ratio", fieldUnits: { voltage: "V" }, convertToUseful: convertLambda },
+    { mode: modeRealTime, pid: "2B", bytes: 4, name: "lambda24", description: "Bank 2 - Sensor 4 /Bank 4 - Sensor 2(wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Voltage", min: 0, max: 2, unit: "ratio", fieldUnits: { voltage: "V" }, convertToUseful: convertLambda },
+    { mode: modeRealTime, pid: "2C", bytes: 1, name: "egr_pct", description: "Commanded EGR", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "2D", bytes: 1, name: "egr_err", description: "EGR Error", min: -100, max: 99.22, unit: "percent", convertToUseful: convertPercentB },
+    { mode: modeRealTime, pid: "2E", bytes: 1, name: "evap_pct", description: "Commanded Evaporative Purge", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "2F", bytes: 1, name: "fli", description: "Fuel Level Input", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "30", bytes: 1, name: "warm_ups", description: "Number of warm-ups since diagnostic trouble codes cleared", min: 0, max: 255, unit: "count", convertToUseful: convertWarmUps },
     { mode: modeRealTime, pid: "31", bytes: 2, name: "clr_dist", description: "Distance since diagnostic trouble codes cleared", min: 0, max: 65535, unit: "km", convertToUseful: convertDistanceSinceCodesCleared },
-    // <-- pending
-    { mode: modeRealTime, pid: "32", bytes: 2, name: "evap_vp", description: "Evap System Vapour Pressure", min: -8192, max: 8192, unit: "Pa", convertToUseful: bitDecoder },
-    // pending -->
-    { mode: modeRealTime, pid: "33", bytes: 1, name: "baro", description: "Barometric Pressure", min: 0, max: 255, unit: "kPa", convertToUseful: bitDecoder },
-    { mode: modeRealTime, pid: "34", bytes: 4, name: "lambdac11", description: "Bank 1 - Sensor 1/Bank 1 - Sensor 1 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda2 },
-    { mode: modeRealTime, pid: "35", bytes: 4, name: "lambdac12", description: "Bank 1 - Sensor 2/Bank 1 - Sensor 2 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda2 },
-    { mode: modeRealTime, pid: "36", bytes: 4, name: "lambdac13", description: "Bank 1 - Sensor 3/Bank 2 - Sensor 1 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda2 },
-    { mode: modeRealTime, pid: "37", bytes: 4, name: "lambdac14", description: "Bank 1 - Sensor 4/Bank 2 - Sensor 2 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda2 },
-    { mode: modeRealTime, pid: "38", bytes: 4, name: "lambdac21", description: "Bank 2 - Sensor 1/Bank 3 - Sensor 1 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda2 },
-    { mode: modeRealTime, pid: "39", bytes: 4, name: "lambdac22", description: "Bank 2 - Sensor 2/Bank 3 - Sensor 2 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda2 },
-    { mode: modeRealTime, pid: "3A", bytes: 4, name: "lambdac23", description: "Bank 2 - Sensor 3/Bank 4 - Sensor 1 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda2 },
-    { mode: modeRealTime, pid: "3B", bytes: 4, name: "lambdac24", description: "Bank 2 - Sensor 4/Bank 4 - Sensor 2 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda2 },
-    { mode: modeRealTime, pid: "3C", bytes: 2, name: "catemp11", description: "Catalyst Temperature Bank 1 /  Sensor 1", min: -40, max: 6513.5, unit: "Celsius", convertToUseful: convertCatalystTemperature },
-    { mode: modeRealTime, pid: "3D", bytes: 2, name: "catemp21", description: "Catalyst Temperature Bank 2 /  Sensor 1", min: -40, max: 6513.5, unit: "Celsius", convertToUseful: convertCatalystTemperature },
-    { mode: modeRealTime, pid: "3E", bytes: 2, name: "catemp12", description: "Catalyst Temperature Bank 1 /  Sensor 2", min: -40, max: 6513.5, unit: "Celsius", convertToUseful: convertCatalystTemperature },
-    { mode: modeRealTime, pid: "3F", bytes: 2, name: "catemp22", description: "Catalyst Temperature Bank 2 /  Sensor 2", min: -40, max: 6513.5, unit: "Celsius", convertToUseful: convertCatalystTemperature },
+    { mode: modeRealTime, pid: "32", bytes: 2, name: "evap_vp", description: "Evap System Vapour Pressure", min: -8192, max: 8192, unit: "Pa", convertToUseful: convertEvapVaporPressure },
+    { mode: modeRealTime, pid: "33", bytes: 1, name: "baro", description: "Barometric Pressure", min: 0, max: 255, unit: "kPa", convertToUseful: convertBarometricPressure },
+    { mode: modeRealTime, pid: "34", bytes: 4, name: "lambdac11", description: "Bank 1 - Sensor 1/Bank 1 - Sensor 1 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "ratio", fieldUnits: { current: "mA" }, convertToUseful: convertLambda2 },
+    { mode: modeRealTime, pid: "35", bytes: 4, name: "lambdac12", description: "Bank 1 - Sensor 2/Bank 1 - Sensor 2 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "ratio", fieldUnits: { current: "mA" }, convertToUseful: convertLambda2 },
+    { mode: modeRealTime, pid: "36", bytes: 4, name: "lambdac13", description: "Bank 1 - Sensor 3/Bank 2 - Sensor 1 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "ratio", fieldUnits: { current: "mA" }, convertToUseful: convertLambda2 },
+    { mode: modeRealTime, pid: "37", bytes: 4, name: "lambdac14", description: "Bank 1 - Sensor 4/Bank 2 - Sensor 2 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "ratio", fieldUnits: { current: "mA" }, convertToUseful: convertLambda2 },
+    { mode: modeRealTime, pid: "38", bytes: 4, name: "lambdac21", description: "Bank 2 - Sensor 1/Bank 3 - Sensor 1 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "ratio", fieldUnits: { current: "mA" }, convertToUseful: convertLambda2 },
+    { mode: modeRealTime, pid: "39", bytes: 4, name: "lambdac22", description: "Bank 2 - Sensor 2/Bank 3 - Sensor 2 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "ratio", fieldUnits: { current: "mA" }, convertToUseful: convertLambda2 },
+    { mode: modeRealTime, pid: "3A", bytes: 4, name: "lambdac23", description: "Bank 2 - Sensor 3/Bank 4 - Sensor 1 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "ratio", fieldUnits: { current: "mA" }, convertToUseful: convertLambda2 },
+    { mode: modeRealTime, pid: "3B", bytes: 4, name: "lambdac24", description: "Bank 2 - Sensor 4/Bank 4 - Sensor 2 (wide range O2S) Oxygen Sensors Equivalence Ratio (lambda) / Current", min: 0, max: 2, unit: "ratio", fieldUnits: { current: "mA" }, convertToUseful: convertLambda2 },
+    { mode: modeRealTime, pid: "3C", bytes: 2, name: "catemp11", description: "Catalyst Temperature Bank 1 /  Sensor 1", min: -40, max: 6513.5, unit: "celsius", convertToUseful: convertCatalystTemperature },
+    { mode: modeRealTime, pid: "3D", bytes: 2, name: "catemp21", description: "Catalyst Temperature Bank 2 /  Sensor 1", min: -40, max: 6513.5, unit: "celsius", convertToUseful: convertCatalystTemperature },
+    { mode: modeRealTime, pid: "3E", bytes: 2, name: "catemp12", description: "Catalyst Temperature Bank 1 /  Sensor 2", min: -40, max: 6513.5, unit: "celsius", convertToUseful: convertCatalystTemperature },
+    { mode: modeRealTime, pid: "3F", bytes: 2, name: "catemp22", description: "Catalyst Temperature Bank 2 /  Sensor 2", min: -40, max: 6513.5, unit: "celsius", convertToUseful: convertCatalystTemperature },
 
-    { mode: modeRealTime, pid: "40", bytes: 4, name: "piddsupp4", description: "PIDs supported 41-60", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: convertPIDSupported },
+    { mode: modeRealTime, pid: "40", bytes: 4, name: "piddsupp4", description: "PIDs supported 41-60", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertPIDSupported },
     // <-- pending
-    { mode: modeRealTime, pid: "41", bytes: 4, name: "monitorstat", description: "Monitor status this driving cycle", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: bitDecoder },
+    { mode: modeRealTime, pid: "41", bytes: 4, name: "monitorstat", description: "Monitor status this driving cycle", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertMonitorStatus },
     // pending -->
     { mode: modeRealTime, pid: "42", bytes: 2, name: "vpwr", description: "Control module voltage", min: 0, max: 65535, unit: "V", convertToUseful: convertControlModuleVoltage },
-    { mode: modeRealTime, pid: "43", bytes: 2, name: "load_abs", description: "Absolute Load Value", min: 0, max: 25700, unit: "%", convertToUseful: convertAbsoluteLoad },
-    { mode: modeRealTime, pid: "44", bytes: 2, name: "lambda", description: "Fuel/air Commanded Equivalence Ratio", min: 0, max: 2, unit: "(ratio)", convertToUseful: convertLambda3 },
-    { mode: modeRealTime, pid: "45", bytes: 1, name: "tp_r", description: "Relative Throttle Position", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "46", bytes: 1, name: "aat", description: "Ambient air temperature", min: -40, max: 215, unit: "Celsius", convertToUseful: convertAmbientAirTemp },
-    { mode: modeRealTime, pid: "47", bytes: 1, name: "tp_b", description: "Absolute Throttle Position B", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "48", bytes: 1, name: "tp_c", description: "Absolute Throttle Position C", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "49", bytes: 1, name: "app_d", description: "Accelerator Pedal Position D", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "4A", bytes: 1, name: "app_e", description: "Accelerator Pedal Position E", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "4B", bytes: 1, name: "app_f", description: "Accelerator Pedal Position F", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "4C", bytes: 1, name: "tac_pct", description: "Commanded Throttle Actuator Control", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "4D", bytes: 2, name: "mil_time", description: "Time run by the engine while MIL activated", min: 0, max: 65535, unit: "minutes", convertToUseful: convertMinutes },
-    { mode: modeRealTime, pid: "4E", bytes: 2, name: "clr_time", description: "Time since diagnostic trouble codes cleared", min: 0, max: 65535, unit: "minutes", convertToUseful: convertMinutes },
-    { mode: modeRealTime, pid: "4F", bytes: 4, name: "exttest1", description: "External Test Equipment Configuration #1", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: convertExternalTestEquipment },
-    { mode: modeRealTime, pid: "50", bytes: 4, name: "exttest2", description: "External Test Equipment Configuration #2", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: convertExternalTestEquipment2 },
-    { mode: modeRealTime, pid: "51", bytes: 1, name: "fuel_type", description: "Fuel Type", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: bitDecoder },
-    { mode: modeRealTime, pid: "52", bytes: 1, name: "alch_pct", description: "Ethanol fuel %", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "43", bytes: 2, name: "load_abs", description: "Absolute Load Value", min: 0, max: 25700, unit: "percent", convertToUseful: convertAbsoluteLoad },
+    { mode: modeRealTime, pid: "44", bytes: 2, name: "lambda", description: "Fuel/air Commanded Equivalence Ratio", min: 0, max: 2, unit: "ratio", convertToUseful: convertLambda3 },
+    { mode: modeRealTime, pid: "45", bytes: 1, name: "tp_r", description: "Relative Throttle Position", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "46", bytes: 1, name: "aat", description: "Ambient air temperature", min: -40, max: 215, unit: "celsius", convertToUseful: convertAmbientAirTemp },
+    { mode: modeRealTime, pid: "47", bytes: 1, name: "tp_b", description: "Absolute Throttle Position B", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "48", bytes: 1, name: "tp_c", description: "Absolute Throttle Position C", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "49", bytes: 1, name: "app_d", description: "Accelerator Pedal Position D", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "4A", bytes: 1, name: "app_e", description: "Accelerator Pedal Position E", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "4B", bytes: 1, name: "app_f", description: "Accelerator Pedal Position F", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "4C", bytes: 1, name: "tac_pct", description: "Commanded Throttle Actuator Control", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "4D", bytes: 2, name: "mil_time", description: "Time run by the engine while MIL activated", min: 0, max: 65535, unit: "min", convertToUseful: convertMinutes },
+    { mode: modeRealTime, pid: "4E", bytes: 2, name: "clr_time", description: "Time since diagnostic trouble codes cleared", min: 0, max: 65535, unit: "min", convertToUseful: convertMinutes },
+    { mode: modeRealTime, pid: "4F", bytes: 4, name: "exttest1", description: "External Test Equipment Configuration #1", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertExternalTestEquipment },
+    { mode: modeRealTime, pid: "50", bytes: 4, name: "exttest2", description: "External Test Equipment Configuration #2", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertExternalTestEquipment2 },
+    { mode: modeRealTime, pid: "51", bytes: 1, name: "fuel_type", description: "Fuel Type", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertFuelType },
+    { mode: modeRealTime, pid: "52", bytes: 1, name: "alch_pct", description: "Ethanol fuel %", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
     { mode: modeRealTime, pid: "53", bytes: 2, name: "abs_vp", description: "Absolute Evap system Vapor Pressure", min: 0, max: 327675, unit: "kPa", convertToUseful: convertAbsoluteVaporPressure },
     { mode: modeRealTime, pid: "54", bytes: 2, name: "system_vp", description: "Evap system vapor pressure", min: -32767, max: 32767, unit: "Pa", convertToUseful: convertSystemVaporPressure },
-    { mode: modeRealTime, pid: "55", bytes: 2, name: "s02b13", description: "Short term secondary oxygen sensor trim bank 1 and bank 3", min: -100, max: 99.22, unit: "%", convertToUseful: convertShortOxygenSensorOutput },
-    { mode: modeRealTime, pid: "56", bytes: 2, name: "l02b13", description: "Long term secondary oxygen sensor trim bank 1 and bank 3", min: -100, max: 99.22, unit: "%", convertToUseful: convertShortOxygenSensorOutput },
-    { mode: modeRealTime, pid: "57", bytes: 2, name: "s02b24", description: "Short term secondary oxygen sensor trim bank 2 and bank 4", min: -100, max: 99.22, unit: "%", convertToUseful: convertShortOxygenSensorOutput },
-    { mode: modeRealTime, pid: "58", bytes: 2, name: "l02b24", description: "Long term secondary oxygen sensor trim bank 2 and bank 4", min: -100, max: 99.22, unit: "%", convertToUseful: convertShortOxygenSensorOutput },
+    { mode: modeRealTime, pid: "55", bytes: 2, name: "s02b13", description: "Short term secondary oxygen sensor trim bank 1 and bank 3", min: -100, max: 99.22, unit: "percent", convertToUseful: convertShortOxygenSensorOutput },
+    { mode: modeRealTime, pid: "56", bytes: 2, name: "l02b13", description: "Long term secondary oxygen sensor trim bank 1 and bank 3", min: -100, max: 99.22, unit: "percent", convertToUseful: convertShortOxygenSensorOutput },
+    { mode: modeRealTime, pid: "57", bytes: 2, name: "s02b24", description: "Short term secondary oxygen sensor trim bank 2 and bank 4", min: -100, max: 99.22, unit: "percent", convertToUseful: convertShortOxygenSensorOutput },
+    { mode: modeRealTime, pid: "58", bytes: 2, name: "l02b24", description: "Long term secondary oxygen sensor trim bank 2 and bank 4", min: -100, max: 99.22, unit: "percent", convertToUseful: convertShortOxygenSensorOutput },
     { mode: modeRealTime, pid: "59", bytes: 2, name: "frp_abs", description: "Fuel rail pressure (absolute)", min: 0, max: 655350, unit: "kPa", convertToUseful: convertFuelRailPressureAbs },
-    { mode: modeRealTime, pid: "5A", bytes: 1, name: "pedalpos", description: "Relative accelerator pedal position", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "5B", bytes: 1, name: "hybridlife", description: "Hybrid battery pack remaining life", min: 0, max: 100, unit: "%", convertToUseful: convertPercentA },
-    { mode: modeRealTime, pid: "5C", bytes: 1, name: "engineoilt", description: "Engine oil temperature", min: -40, max: 210, unit: "°C", convertToUseful: convertTemp },
-    { mode: modeRealTime, pid: "5D", bytes: 2, name: "finjtiming", description: "Fuel injection timing", min: -210.00, max: 301.992, unit: "°", convertToUseful: convertFuelInjectionTiming },
+    { mode: modeRealTime, pid: "5A", bytes: 1, name: "pedalpos", description: "Relative accelerator pedal position", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "5B", bytes: 1, name: "hybridlife", description: "Hybrid battery pack remaining life", min: 0, max: 100, unit: "percent", convertToUseful: convertPercentA },
+    { mode: modeRealTime, pid: "5C", bytes: 1, name: "engineoilt", description: "Engine oil temperature", min: -40, max: 210, unit: "celsius", convertToUseful: convertTemp },
+    { mode: modeRealTime, pid: "5D", bytes: 2, name: "finjtiming", description: "Fuel injection timing", min: -210.00, max: 301.992, unit: "degree", convertToUseful: convertFuelInjectionTiming },
     { mode: modeRealTime, pid: "5E", bytes: 2, name: "enginefrate", description: "Engine fuel rate", min: 0, max: 3212.75, unit: "L/h", convertToUseful: convertEngineFuelRate },
-    { mode: modeRealTime, pid: "5F", bytes: 1, name: "emmissionreq", description: "Emission requirements to which vehicle is designed", min: 0, max: 0, unit: "Bit Encoded", convertToUseful: bitDecoder },
+    { mode: modeRealTime, pid: "5F", bytes: 1, name: "emmissionreq", description: "Emission requirements to which vehicle is designed", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertEmissionRequirements },
+    { mode: modeRealTime, pid: "60", bytes: 4, name: "piddsupp6", description: "PIDs supported 61-80", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertPIDSupported },
 
     //added some new pid entries
-    { mode: modeRealTime, pid: "62", bytes: 1, name: "aet", description: "Actual engine - percent torque", min: -125, max: 125, unit: "%", convertToUseful: convertEngineTorque },
-    { mode: modeRealTime, pid: "67", bytes: 3, name: "ect", description: "Engine coolant temperature", min: -40, max: 215, unit: "Celsius" },
-    { mode: modeRealTime, pid: "6B", bytes: 5, name: "egrt", description: "Exhaust gas recirculation temperature", min: -40, max: 215, unit: "Celsius" },
-    { mode: modeRealTime, pid: "6D", bytes: 6, name: "fpc", description: "Fuel pressure control system", min: -40, max: 215, unit: "Celsius" },
-    { mode: modeRealTime, pid: "6E", bytes: 5, name: "ipct", description: "Injection pressure control system", min: -40, max: 215, unit: "Celsius" },
-    { mode: modeRealTime, pid: "73", bytes: 5, name: "ep", description: "Exhaust pressure", min: -40, max: 215, unit: "Celsius" },
-    { mode: modeRealTime, pid: "78", bytes: 9, name: "egt", description: "Exhaust Gas temperature Bank 1", min: -40, max: 215, unit: "Celsius", convertToUseful: convertExhastGasTemperature },
+    { mode: modeRealTime, pid: "62", bytes: 1, name: "aet", description: "Actual engine - percent torque", min: -125, max: 125, unit: "percent", convertToUseful: convertEngineTorque },
+    { mode: modeRealTime, pid: "67", bytes: 3, name: "ect", description: "Engine coolant temperature", min: -40, max: 215, unit: "celsius", convertToUseful: convertEngineCoolantTemperatures },
+    { mode: modeRealTime, pid: "6B", bytes: 5, name: "egrt", description: "Exhaust gas recirculation temperature", min: -40, max: 215, unit: "celsius", convertToUseful: convertEGRTemperatures },
+    { mode: modeRealTime, pid: "6D", bytes: 11, name: "fpc", description: "Fuel pressure control system", min: 0, max: 655350, unit: "kPa", fieldUnits: { temperature: "celsius" }, convertToUseful: convertFuelPressureControl },
+    { mode: modeRealTime, pid: "6E", bytes: 9, name: "ipct", description: "Injection pressure control system", min: 0, max: 655350, unit: "kPa", convertToUseful: convertInjectionPressureControl },
+    { mode: modeRealTime, pid: "73", bytes: 5, name: "ep", description: "Exhaust pressure", min: 0, max: 655.35, unit: "kPa", convertToUseful: convertExhaustPressure },
+    { mode: modeRealTime, pid: "78", bytes: 9, name: "egt", description: "Exhaust Gas temperature Bank 1", min: -40, max: 215, unit: "celsius", convertToUseful: convertExhastGasTemperature },
+    { mode: modeRealTime, pid: "80", bytes: 4, name: "piddsupp8", description: "PIDs supported 81-A0", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertPIDSupported },
+    { mode: modeRealTime, pid: "A0", bytes: 4, name: "piddsuppa", description: "PIDs supported A1-C0", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertPIDSupported },
+    { mode: modeRealTime, pid: "C0", bytes: 4, name: "piddsuppc", description: "PIDs supported C1-E0", min: 0, max: 0, unit: "bitEncoded", convertToUseful: convertPIDSupported },
 
 
 
     //DTC's
-    // my fake modification
-    // { mode: modeRequestDTC, pid: undefined, bytes: 6, name: "requestdtc", description: "Requested DTC", convertToUseful: convertDTCRequest }, //n*6 --> For each code, 6 bytes.
-    // { mode: modeClearDTC, pid: undefined, bytes: 0, name: "cleardtc", description: "Clear Trouble Codes (Clear engine light)", convertToUseful: notSupported },
+    { mode: modeRequestDTC, pid: undefined as string, bytes: 6, name: "requestdtc", description: "Requested DTC", convertToUseful: convertDTCRequest }, //Any number of bytes, 2 per code.
+    { mode: modeClearDTC, pid: undefined as string, bytes: 0, name: "cleardtc", description: "Clear Trouble Codes (Clear engine light)", convertToUseful: convertDTCCleared },
+    { mode: modePendingDTC, pid: undefined as string, bytes: 6, name: "pendingdtc", description: "Pending DTC (current or last driving cycle)", convertToUseful: convertDTCRequest },
+    { mode: modePermanentDTC, pid: undefined as string, bytes: 6, name: "permanentdtc", description: "Permanent DTC (cleared by the ECU only)", convertToUseful: convertDTCRequest },
+
+    //On-board monitoring test results, the tests themselves are decoded by monitorTests.ts.
+    { mode: modeMonitorTests, pid: "00", bytes: 4, name: "midsupp0", description: "Monitor IDs supported 01-20", convertToUseful: convertPIDSupported },
+    { mode: modeMonitorTests, pid: "20", bytes: 4, name: "midsupp2", description: "Monitor IDs supported 21-40", convertToUseful: convertPIDSupported },
+    { mode: modeMonitorTests, pid: "40", bytes: 4, name: "midsupp4", description: "Monitor IDs supported 41-60", convertToUseful: convertPIDSupported },
+    { mode: modeMonitorTests, pid: "60", bytes: 4, name: "midsupp6", description: "Monitor IDs supported 61-80", convertToUseful: convertPIDSupported },
+    { mode: modeMonitorTests, pid: "80", bytes: 4, name: "midsupp8", description: "Monitor IDs supported 81-A0", convertToUseful: convertPIDSupported },
+    { mode: modeMonitorTests, pid: "A0", bytes: 4, name: "midsuppa", description: "Monitor IDs supported A1-C0", convertToUseful: convertPIDSupported },
+    { mode: modeMonitorTests, pid: "C0", bytes: 4, name: "midsuppc", description: "Monitor IDs supported C1-E0", convertToUseful: convertPIDSupported },
 
     //VIN
-    { mode: modeVin, pid: "00", bytes: 4, name: "vinsupp0", description: "Vehicle Identification Number", convertToUseful: bitDecoder },
-    { mode: modeVin, pid: "01", bytes: 1, name: "vin_mscout", description: "VIN message count", convertToUseful: convertVIN_count },
-    { mode: modeVin, pid: "02", bytes: 1, name: "vin", description: "Vehicle Identification Number", convertToUseful: convertVIN }
-];
+    { mode: modeVin, pid: "00", bytes: 4, name: "vinsupp0", description: "Vehicle Identification Number", convertToUseful: convertPIDSupported },
+    { mode: modeVin, pid: "01", bytes: 1, name: "vin_mscout", description: "VIN message count", convertToUseful: convertMessageCount },
+    { mode: modeVin, pid: "02", bytes: 17, name: "vin", description: "Vehicle Identification Number", convertToUseful: convertVIN },
+
+    //Vehicle information, variable length like the VIN. See vehicleInfo.ts.
+    { mode: modeVin, pid: "03", bytes: 1, name: "calid_mscout", description: "Calibration ID message count", convertToUseful: convertMessageCount },
+    { mode: modeVin, pid: "04", bytes: 16, name: "calid", description: "Calibration IDs", convertToUseful: convertCalibrationIds }, //16 bytes per ID.
+    { mode: modeVin, pid: "05", bytes: 1, name: "cvn_mscout", description: "Calibration verification number message count", convertToUseful: convertMessageCount },
+    { mode: modeVin, pid: "06", bytes: 4, name: "cvn", description: "Calibration verification numbers", convertToUseful: convertCalibrationVerificationNumbers }, //4 bytes per CVN.
+    { mode: modeVin, pid: "07", bytes: 1, name: "ipt_mscout", description: "In-use performance tracking message count", convertToUseful: convertMessageCount },
+    { mode: modeVin, pid: "08", bytes: 40, name: "ipt_spark", description: "In-use performance tracking for spark ignition vehicles", convertToUseful: convertSparkPerformance },
+    { mode: modeVin, pid: "09", bytes: 1, name: "ecuname_mscout", description: "ECU name message count", convertToUseful: convertMessageCount },
+    { mode: modeVin, pid: "0A", bytes: 20, name: "ecuname", description: "ECU name", convertToUseful: convertEcuName },
+    { mode: modeVin, pid: "0B", bytes: 36, name: "ipt_compression", description: "In-use performance tracking for compression ignition vehicles", convertToUseful: convertCompressionPerformance }
+] as const;
 
 // const exports = module.exports = responsePIDS;
 export default responsePIDS;
\ No newline at end of file
@@ -0,0 +1,184 @@
+'use strict';
+
+import responsePIDS from './obdInfo';
+import { Unit } from './units';
+
+/**
+ * Converts the data bytes of a response to a useful value.
+ * Gets every data byte after the mode and PID (and the frame number in mode 02), each in
+ * hexadecimal ASCII, e.g. convertRPM("1A", "F8") --> 1726.
+ */
+export type PidConverter = (...bytes: string[]) => unknown;
+
+export interface PidDefinition {
+    /**
+     * Request mode in hexadecimal ASCII, e.g. "01", or "22" for manufacturer PIDs.
+     */
+    mode: string;
+    /**
+     * PID in hexadecimal ASCII, e.g. "0C", or "F40D" for a mode 22 PID. Undefined for modes
+     * without a PID, like 03.
+     */
+    pid: string;
+    /**
+     * Number of data bytes in the response.
+     */
+    bytes: number;
+    /**
+     * Unique name, used to request the PID.
+     */
+    name: string;
+    description: string;
+    min?: number;
+    max?: number;
+    /**
+     * Canonical unit of the decoded value, see units.ts.
+     */
+    unit?: Unit;
+    /**
+     * Units of object properties that differ from unit, e.g. { temperature: 'celsius' } for
+     * a pressure PID that also reports a temperature.
+     */
+    fieldUnits?: { [field: string]: Unit };
+    /**
+     * Decodes the response. Without it, the reply value is the data bytes as they are.
+     */
+    convertToUseful?: PidConverter;
+}
+
+type StandardDefinition = (typeof responsePIDS)[number];
+
+/**
+ * Names of the standard PIDs of obdInfo.ts, e.g. "rpm".
+ */
+export type PidName = StandardDefinition['name'];
+
+/**
+ * Decoded value of a standard PID: what its converter returns, e.g. number for "rpm" and
+ * { ratio, voltage } for "lambda11".
+ */
+export type PidValue<N extends PidName> = ReturnType<Extract<StandardDefinition, { name: N }>['convertToUseful']>;
+
+/**
+ * Looks up PID definitions by name and by request. Holds the standard PIDs of obdInfo.ts,
+ * and can be extended at runtime with manufacturer PIDs:
+ *
+ *     pidRegistry.register({ mode: '22', pid: '1154', bytes: 1, name: 'oil_temp', description: 'Oil temperature',
+ *         unit: 'celsius', convertToUseful: (byte: string) => parseInt(byte, 16) - 40 });
+ */
+export class PidRegistry {
+    private byName: { [name: string]: PidDefinition } = {};
+    private byCommand: { [command: string]: PidDefinition } = {};
+
+    /**
+     * @param {PidDefinition[]} definitions Definitions to start with.
+     */
+    constructor(definitions: ReadonlyArray<PidDefinition> = []) {
+        definitions.forEach(definition => this.register(definition));
+    }
+
+    /**
+     * Adds a definition, replacing the one with the same name or the same mode and PID.
+     * @param {PidDefinition} definition The definition.
+     */
+    register(definition: PidDefinition) {
+        if (!/^[0-9A-F]{2}$/.test(definition.mode) || (definition.pid !== undefined && !/^([0-9A-F]{2})+$/.test(definition.pid))) {
+            throw new Error('PidRegistry: mode and PID must be uppercase hexadecimal bytes, got ' + definition.mode + ' ' + definition.pid);
+        }
+        if (!definition.name) {
+            throw new Error('PidRegistry: a PID definition needs a name');
+        }
+
+        this.unregister(definition.name);
+        const replaced = this.byCommand[commandOf(definition)];
+        if (replaced) {
+            this.unregister(replaced.name);
+        }
+        this.byName[definition.name] = definition;
+        this.byCommand[commandOf(definition)] = definition;
+    }
+
+    /**
+     * Removes a definition.
+     * @param {string} name Name of the definition.
+     * @return {boolean} Whether there was a definition with that name.
+     */
+    unregister(name: string): boolean {
+        const definition = this.byName[name];
+        if (!definition) {
+            return false;
+        }
+        delete this.byName[name];
+        delete this.byCommand[commandOf(definition)];
+        return true;
+    }
+
+    getByName(name: string): PidDefinition {
+        return this.byName[name];
+    }
+
+    /**
+     * @param {string} command Mode and PID in hexadecimal ASCII, e.g. "010C", or just the mode
+     * for modes without a PID.
+     */
+    getByCommand(command: string): PidDefinition {
+        return this.byCommand[command.toUpperCase()];
+    }
+
+    /**
+     * @param {string} name Name of the definition.
+     * @return {string} The request for the PID, e.g. "010C", or undefined for unknown names.
+     */
+    getCommand(name: string): string {
+        const definition = this.byName[name];
+        return definition ? commandOf(definition) : undefined;
+    }
+
+    /**
+     * Finds the definition a response is for.
+     * @param {string} requestMode The mode of the request, e.g. "01" for a "41" response.
+     * @param {string[]} bytes The response bytes after the mode byte.
+     * @return {PidDefinition} The definition, or undefined. The PID takes the first
+     * definition.pid.length / 2 bytes.
+     */
+    findForResponse(requestMode: string, bytes: string[]): PidDefinition {
+        //PIDs are one byte in the standard modes and two bytes in mode 22.
+        for (let length = 0; length <= 2 && length <= bytes.length; length++) {
+            const definition = this.byCommand[requestMode + bytes.slice(0, length).join('').toUpperCase()];
+            if (definition && (definition.pid || '').length === length * 2) {
+                return definition;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * @param {string} mode Only list definitions of this mode.
+     */
+    list(mode?: string): PidDefinition[] {
+        return Object.keys(this.byName)
+            .map(name => this.byName[name])
+            .filter(definition => mode === undefined || definition.mode === mode);
+    }
+}
+
+/**
+ * Decodes data bytes with a definition.
+ * @param {PidDefinition} definition The definition of the PID.
+ * @param {string[]} bytes Data bytes in hexadecimal ASCII, of any length.
+ */
+export function decodePid(definition: PidDefinition, bytes: string[]): unknown {
+    if (!definition.convertToUseful) {
+        return bytes.join('');
+    }
+    return definition.convertToUseful.apply(null, bytes);
+}
+
+function commandOf(definition: PidDefinition) {
+    return definition.pid !== undefined ? definition.mode + definition.pid : definition.mode;
+}
+
+/**
+ * The registry used by OBDReader and ELM327Emulator.
+ */
+export const pidRegistry = new PidRegistry(responsePIDS);
@@ -0,0 +1,270 @@
+import { EventEmitter } from 'events';
+
+import { CommandPriority } from './commandScheduler';
+
+export interface PollerOptions {
+    /**
+     * Target number of requests per second. Defaults to the rate given to startPolling().
+     */
+    rateHz?: number;
+    /**
+     * Which pollers go first when the link can't keep up. Defaults to CommandPriority.Normal.
+     * All pollers still go behind manual requests.
+     */
+    priority?: CommandPriority;
+}
+
+/**
+ * A poller as the scheduler sees it.
+ */
+export interface PollTarget {
+    /**
+     * Mode and PID, e.g. "010C".
+     */
+    command: string;
+    options: PollerOptions;
+}
+
+export interface PollerStatus {
+    command: string;
+    /**
+     * Requests per second asked for.
+     */
+    targetRate: number;
+    /**
+     * Requests per second answered, over the last requests.
+     */
+    achievedRate: number;
+    /**
+     * NO DATA answers, or missing answers in a batched request, in a row.
+     */
+    noDataCount: number;
+    /**
+     * Time in ms since the epoch until the poller is paused because of NO DATA answers.
+     */
+    backedOffUntil?: number;
+}
+
+interface PollState {
+    nextDue: number;
+    noDataCount: number;
+    backedOffUntil: number;
+    completionTimes: number[];
+}
+
+/**
+ * Number of answered requests the achieved rate of a poller is based on.
+ */
+const rateWindow = 10;
+
+/**
+ * Sends pollers at their own rates. Whenever the link is free, the most important poller
+ * that is due goes next, so under overload fast pollers keep their share instead of being
+ * starved by a fixed round-robin. Due mode 01 pollers share a request when the link allows
+ * batching (up to maxBatch() PIDs, see OBDReader.isCanProtocol()).
+ *
+ * Emits:
+ *  - 'ratesUnmet' (requestedRate: number, capacity: number) The pollers ask for more requests
+ *    per second than the link answers. Emitted once until the load drops again.
+ *  - 'backoff'    (command: string, delay: number) A poller answered NO DATA, or was left out
+ *    of the answer to a batched request, and is paused.
+ */
+export class PollScheduler extends EventEmitter {
+    /**
+     * Poll requests waiting for their answer at the same time.
+     */
+    maxOutstanding = 1;
+    /**
+     * Longest pause in ms of a poller that keeps answering NO DATA.
+     */
+    maxBackoff = 60000;
+
+    private running = false;
+    private defaultRate = 1;
+    private outstanding = 0;
+    private timer: number;
+    private states: { [command: string]: PollState } = {};
+    private overloaded = false;
+
+    /**
+     * @param {Function} pollers Returns the current pollers.
+     * @param {Function} send Sends one request for the given commands and resolves with the
+     * commands that were answered. The others count as NO DATA.
+     * @param {Function} capacity Requests per second the link answers, measured. Infinity while unknown.
+     * @param {Function} maxBatch Number of mode 01 commands that may share a request.
+     */
+    constructor(private pollers: () => PollTarget[],
+                private send: (commands: string[]) => Promise<string[]>,
+                private capacity: () => number,
+                private maxBatch: () => number = () => 1) {
+        super();
+    }
+
+    /**
+     * @param {number} defaultRate Requests per second for pollers without a rateHz.
+     */
+    start(defaultRate: number) {
+        this.defaultRate = defaultRate;
+        this.running = true;
+        this.pump();
+    }
+
+    stop() {
+        this.running = false;
+        clearTimeout(this.timer);
+    }
+
+    isRunning() {
+        return this.running;
+    }
+
+    /**
+     * Picks up added, removed or changed pollers. pump() otherwise only runs when a request
+     * completes or the next poller is due, so an idle scheduler would miss a new poller.
+     */
+    refresh() {
+        if (this.running && this.outstanding === 0) {
+            this.pump();
+        }
+    }
+
+    getStatus(): PollerStatus[] {
+        return this.pollers().map(target => {
+            const state = this.stateOf(target.command);
+            const times = state.completionTimes;
+            const span = times.length > 1 ? times[times.length - 1] - times[0] : 0;
+            const status: PollerStatus = {
+                command: target.command,
+                targetRate: this.rateOf(target),
+                achievedRate: span > 0 ? (times.length - 1) * 1000 / span : 0,
+                noDataCount: state.noDataCount
+            };
+            if (state.backedOffUntil > Date.now()) {
+                status.backedOffUntil = state.backedOffUntil;
+            }
+            return status;
+        });
+    }
+
+    /**
+     * Sends due pollers while there is room, then waits for the next one to become due.
+     */
+    private pump() {
+        clearTimeout(this.timer);
+        if (!this.running) {
+            return;
+        }
+        const pollers = this.pollers();
+        this.checkLoad(pollers);
+
+        let nextDue = Infinity;
+        while (this.outstanding < this.maxOutstanding) {
+            const now = Date.now();
+            const due: PollTarget[] = [];
+            pollers.forEach(target => {
+                const time = this.dueTime(target);
+                if (time > now) {
+                    nextDue = Math.min(nextDue, time);
+                } else {
+                    due.push(target);
+                }
+            });
+            if (due.length === 0) {
+                break;
+            }
+            due.sort((a, b) => priorityOf(a) - priorityOf(b) || this.dueTime(a) - this.dueTime(b));
+
+            //The most important poller goes, other due mode 01 pollers ride along in its request.
+            let batch = [due[0]];
+            if (isBatchable(due[0])) {
+                batch = batch.concat(due.slice(1).filter(isBatchable).slice(0, Math.max(this.maxBatch(), 1) - 1));
+            }
+            this.poll(batch, now);
+        }
+
+        if (this.outstanding < this.maxOutstanding && nextDue !== Infinity) {
+            this.timer = setTimeout(() => this.pump(), nextDue - Date.now()) as any as number;
+        }
+    }
+
+    private poll(batch: PollTarget[], now: number) {
+        batch.forEach(target => {
+            const state = this.stateOf(target.command);
+            const interval = 1000 / this.rateOf(target);
+            //Keeps the cadence while on time. A poller that fell behind starts over instead of
+            //getting a burst.
+            state.nextDue = (now - state.nextDue < interval ? state.nextDue : now) + interval;
+        });
+        this.outstanding++;
+
+        this.send(batch.map(target => target.command)).then(answered => {
+            this.outstanding--;
+            batch.forEach(target => {
+                const state = this.stateOf(target.command);
+                if (answered.indexOf(target.command) === -1) {
+                    state.noDataCount++;
+                    const delay = Math.min(1000 / this.rateOf(target) * Math.pow(2, state.noDataCount), this.maxBackoff);
+                    state.backedOffUntil = Date.now() + delay;
+                    this.emit('backoff', target.command, delay);
+                } else {
+                    state.noDataCount = 0;
+                    state.completionTimes.push(Date.now());
+                    if (state.completionTimes.length > rateWindow) {
+                        state.completionTimes.shift();
+                    }
+                }
+            });
+            this.pump();
+        }, () => {
+            //Timeouts and cancelled requests, the reader reports those.
+            this.outstanding--;
+            this.pump();
+        });
+    }
+
+    private checkLoad(pollers: PollTarget[]) {
+        const now = Date.now();
+        const active = pollers.filter(target => this.stateOf(target.command).backedOffUntil <= now);
+        const rateSum = (targets: PollTarget[]) => targets.reduce((sum, target) => sum + this.rateOf(target), 0);
+        //capacity() counts requests, and a batched request answers several pollers at once.
+        const batchable = active.filter(isBatchable);
+        const batchSize = Math.max(Math.min(this.maxBatch(), batchable.length), 1);
+        const requested = rateSum(batchable) / batchSize + rateSum(active.filter(target => !isBatchable(target)));
+        const capacity = this.capacity();
+
+        if (!this.overloaded && requested > capacity) {
+            this.overloaded = true;
+            this.emit('ratesUnmet', requested, capacity);
+        } else if (this.overloaded && requested <= capacity * 0.9) {
+            //Some headroom, so a load right at the limit doesn't emit over and over.
+            this.overloaded = false;
+        }
+    }
+
+    private dueTime(target: PollTarget) {
+        const state = this.stateOf(target.command);
+        return Math.max(state.nextDue, state.backedOffUntil);
+    }
+
+    private rateOf(target: PollTarget) {
+        return target.options.rateHz > 0 ? target.options.rateHz : this.defaultRate;
+    }
+
+    private stateOf(command: string): PollState {
+        if (!this.states[command]) {
+            this.states[command] = { nextDue: 0, noDataCount: 0, backedOffUntil: 0, completionTimes: [] };
+        }
+        return this.states[command];
+    }
+}
+
+/**
+ * Mode 01 PIDs can be requested together, e.g. "010C0D".
+ */
+function isBatchable(target: PollTarget) {
+    return /^01[0-9A-F]{2}$/.test(target.command);
+}
+
+function priorityOf(target: PollTarget) {
+    return target.options.priority !== undefined ? target.options.priority : CommandPriority.Normal;
+}
@@ -0,0 +1,186 @@
+'use strict';
+
+export type IgnitionType = 'spark' | 'compression';
+
+/**
+ * State of one emissions monitor (OBD self-test).
+ */
+export interface MonitorStatus {
+    /**
+     * Whether the vehicle has the monitor.
+     */
+    available: boolean;
+    /**
+     * Whether the test has run to completion. Always false for monitors that aren't available.
+     */
+    complete: boolean;
+}
+
+/**
+ * Decoded PID 01 (dtc_cnt) or PID 41 (monitorstat).
+ */
+export interface MonitorStatusReport {
+    /**
+     * Number of confirmed trouble codes. 0 for PID 41, which has no count.
+     */
+    numberOfErrors: number;
+    /**
+     * 1 if the malfunction indicator lamp (check engine light) is on. 0 for PID 41.
+     */
+    mil: number;
+    /**
+     * Byte B bit 3, selects the monitors of byte C and D.
+     */
+    ignition: IgnitionType;
+    /**
+     * By monitor name: the continuous monitors misfire, fuelSystem and components, then the
+     * non-continuous monitors of the ignition type, see sparkMonitors and compressionMonitors.
+     */
+    monitors: { [name: string]: MonitorStatus };
+}
+
+export interface ReadinessOptions {
+    /**
+     * Number of incomplete monitors a vehicle may have and still pass. Most I/M programs
+     * allow 1 for model year 2001 and newer, and 2 for 1996-2000. Defaults to 1.
+     */
+    allowedIncomplete?: number;
+}
+
+/**
+ * Result of an I/M (inspection and maintenance) readiness check, see
+ * OBDReader.getReadinessReport().
+ */
+export interface ReadinessReport {
+    /**
+     * Whether the vehicle would pass: MIL off and no more incomplete monitors than allowed.
+     */
+    ready: boolean;
+    mil: boolean;
+    numberOfErrors: number;
+    ignition: IgnitionType;
+    /**
+     * Names of the available monitors that completed since the trouble codes were cleared.
+     */
+    complete: string[];
+    /**
+     * Names of the available monitors that didn't complete yet.
+     */
+    incomplete: string[];
+    /**
+     * Names of the monitors the vehicle doesn't have.
+     */
+    unavailable: string[];
+    /**
+     * Why the vehicle wouldn't pass. Empty if ready.
+     */
+    reasons: string[];
+    /**
+     * Monitor status of the current driving cycle (PID 41). --! Only if the vehicle supports it.
+     */
+    thisDrivingCycle?: MonitorStatusReport;
+}
+
+/**
+ * Monitors of byte B bits 0-2 (available) and 4-6 (incomplete), for both ignition types.
+ */
+export const continuousMonitors = ['misfire', 'fuelSystem', 'components'];
+
+/**
+ * Monitors of byte C (available) and D (incomplete), bits 0-7, for spark ignition engines.
+ */
+export const sparkMonitors = ['catalyst', 'heatedCatalyst', 'evaporativeSystem', 'secondaryAirSystem',
+    'acRefrigerant', 'oxygenSensor', 'oxygenSensorHeater', 'egrSystem'];
+
+/**
+ * Monitors of byte C and D for compression ignition (diesel) engines. Bits 2 and 4 are reserved.
+ */
+export const compressionMonitors = ['nmhcCatalyst', 'noxAftertreatment', undefined, 'boostPressure',
+    undefined, 'exhaustGasSensor', 'pmFilter', 'egrSystem'];
+
+/**
+ * Decodes PID 01 or PID 41. Byte A of PID 41 is reserved and reads 00.
+ * @param {string} byteA MIL (bit 7) and number of confirmed trouble codes (bits 0-6).
+ * @param {string} byteB Continuous monitors and the ignition type (bit 3).
+ * @param {string} byteC Available non-continuous monitors.
+ * @param {string} byteD Incomplete non-continuous monitors.
+ */
+export function decodeMonitorStatus(byteA: string, byteB: string, byteC: string, byteD: string): MonitorStatusReport {
+    const a = parseInt(byteA, 16);
+    const b = parseInt(byteB, 16);
+    const c = parseInt(byteC, 16);
+    const d = parseInt(byteD, 16);
+    const ignition: IgnitionType = (b & 0x08) ? 'compression' : 'spark';
+
+    const monitors: { [name: string]: MonitorStatus } = {};
+    const addMonitor = (name: string, available: boolean, incomplete: boolean) => {
+        if (name !== undefined) {
+            monitors[name] = { available: available, complete: available && !incomplete };
+        }
+    };
+    continuousMonitors.forEach((name, bit) => addMonitor(name, !!(b & (1 << bit)), !!(b & (1 << (bit + 4)))));
+    (ignition === 'spark' ? sparkMonitors : compressionMonitors)
+        .forEach((name, bit) => addMonitor(name, !!(c & (1 << bit)), !!(d & (1 << bit))));
+
+    return {
+        numberOfErrors: a & 0x7F,
+        mil: a >> 7,
+        ignition: ignition,
+        monitors: monitors
+    };
+}
+
+/**
+ * Combines the monitor status of several ECUs into the vehicle's, like a scan tool at an
+ * inspection: a monitor is available if any ECU has it and complete only if every ECU that has
+ * it completed it. The MIL is on if any ECU turns it on.
+ * @param {MonitorStatusReport[]} statuses Decoded PID 01 or PID 41 of each ECU.
+ */
+export function combineMonitorStatus(statuses: MonitorStatusReport[]): MonitorStatusReport {
+    //Engine ECUs report the ignition type, other ECUs (e.g. the transmission) usually report spark.
+    const ignition: IgnitionType = statuses.some(status => status.ignition === 'compression') ? 'compression' : 'spark';
+    const combined: MonitorStatusReport = {
+        numberOfErrors: statuses.reduce((sum, status) => sum + status.numberOfErrors, 0),
+        mil: statuses.some(status => status.mil === 1) ? 1 : 0,
+        ignition: ignition,
+        monitors: {}
+    };
+    statuses.filter(status => status.ignition === ignition).forEach(status => {
+        Object.keys(status.monitors).forEach(name => {
+            const monitor = status.monitors[name];
+            const current = combined.monitors[name];
+            combined.monitors[name] = !current || !current.available ? { available: monitor.available, complete: monitor.complete } :
+                { available: true, complete: current.complete && (monitor.complete || !monitor.available) };
+        });
+    });
+    return combined;
+}
+
+/**
+ * Evaluates the monitor status like a typical I/M readiness check.
+ * @param {MonitorStatusReport} status Decoded PID 01.
+ * @param {ReadinessOptions} options
+ */
+export function evaluateReadiness(status: MonitorStatusReport, options: ReadinessOptions = {}): ReadinessReport {
+    const allowedIncomplete = options.allowedIncomplete !== undefined ? options.allowedIncomplete : 1;
+    const names = Object.keys(status.monitors);
+    const report: ReadinessReport = {
+        ready: false,
+        mil: status.mil === 1,
+        numberOfErrors: status.numberOfErrors,
+        ignition: status.ignition,
+        complete: names.filter(name => status.monitors[name].complete),
+        incomplete: names.filter(name => status.monitors[name].available && !status.monitors[name].complete),
+        unavailable: names.filter(name => !status.monitors[name].available),
+        reasons: []
+    };
+
+    if (report.mil) {
+        report.reasons.push('MIL is on with ' + report.numberOfErrors + ' confirmed trouble code(s)');
+    }
+    if (report.incomplete.length > allowedIncomplete) {
+        report.reasons.push(report.incomplete.length + ' incomplete monitor(s), ' + allowedIncomplete + ' allowed: ' + report.incomplete.join(', '));
+    }
+    report.ready = report.reasons.length === 0;
+    return report;
+}
@@ -0,0 +1,111 @@
+import { EventEmitter } from 'events';
+
+import { Transport } from './transport';
+import { SessionLogEntry, parseSessionLog } from './sessionRecorder';
+
+export interface ReplayOptions {
+    /**
+     * 1 replays with the recorded delays, 2 twice as fast, and so on. 0 (default) replays
+     * as fast as possible.
+     */
+    speed?: number;
+}
+
+/**
+ * Plays a session log recorded with SessionRecorder back to OBDReader, in place of a real
+ * adapter. Every write releases the data that was received after the same write in the
+ * recording, so the reader goes through the same parse path as in the recorded session.
+ *
+ * Besides the Transport events it emits:
+ *  - 'mismatch' (written: string, recorded: string) A write differs from the recording.
+ *    The replay goes on in recorded order.
+ *  - 'finished' () All recorded data was delivered.
+ */
+export class ReplayTransport extends EventEmitter implements Transport {
+    private entries: SessionLogEntry[];
+    private position = 0;
+    private opened = false;
+    private timers: number[] = [];
+    private finished = false;
+
+    /**
+     * @param {string|SessionLogEntry[]} log The log as written by SessionRecorder, or its parsed entries.
+     * @param {ReplayOptions} options
+     */
+    constructor(log: string | SessionLogEntry[], private options: ReplayOptions = {}) {
+        super();
+        this.entries = typeof log === 'string' ? parseSessionLog(log) : log;
+    }
+
+    open(success: () => void, error: (err?: any) => void) {
+        this.opened = true;
+        setImmediate(() => {
+            success();
+            //Data received before the first write, e.g. the adapter's boot message.
+            this.replayData(this.entries[0] ? this.entries[0].time : 0);
+        });
+    }
+
+    write(buffer: Buffer, cb: (err?: any) => void) {
+        if (!this.opened) {
+            setImmediate(() => cb(new Error('Replay transport is closed.')));
+            return;
+        }
+        setImmediate(cb);
+
+        const written = buffer.toString('utf-8');
+        while (this.position < this.entries.length && this.entries[this.position].direction !== 'write') {
+            this.position++; //Data the reader didn't wait for.
+        }
+        const recorded = this.entries[this.position];
+        if (!recorded) {
+            return;
+        }
+        if (recorded.data !== written) {
+            this.emit('mismatch', written, recorded.data);
+        }
+        this.position++;
+        this.replayData(recorded.time);
+    }
+
+    close() {
+        if (this.opened) {
+            this.opened = false;
+            this.timers.forEach(timer => clearTimeout(timer));
+            this.timers = [];
+            setImmediate(() => this.emit('closed'));
+        }
+    }
+
+    isOpen() {
+        return this.opened;
+    }
+
+    /**
+     * Delivers the data entries up to the next write.
+     * @param {number} since Recorded time the delays are counted from.
+     */
+    private replayData(since: number) {
+        const speed = this.options.speed || 0;
+        while (this.position < this.entries.length && this.entries[this.position].direction === 'data') {
+            const entry = this.entries[this.position++];
+            const delay = speed > 0 ? (entry.time - since) / speed : 0;
+            const timer = setTimeout(() => {
+                this.timers.splice(this.timers.indexOf(timer), 1);
+                if (this.opened) {
+                    this.emit('data', entry.data);
+                }
+                this.checkFinished();
+            }, delay) as any as number;
+            this.timers.push(timer);
+        }
+        this.checkFinished();
+    }
+
+    private checkFinished() {
+        if (!this.finished && this.position >= this.entries.length && this.timers.length === 0) {
+            this.finished = true;
+            this.emit('finished');
+        }
+    }
+}
@@ -0,0 +1,200 @@
+'use strict';
+
+/**
+ * One complete message of a response, after multi-frame/multi-line assembly.
+ */
+export interface ResponseMessage {
+    /**
+     * The message in hexadecimal ASCII without spaces, e.g. "490201314731...". Lines that
+     * aren't hex data ("OK", "NO DATA", ...) are passed through as they are.
+     */
+    data: string;
+    /**
+     * Address of the ECU that sent the message. --! Only with headers on.
+     * CAN 11-bit: the response identifier, e.g. "7E8". CAN 29-bit: the full identifier,
+     * e.g. "18DAF110". Legacy protocols: the source address byte, e.g. "10".
+     */
+    ecu?: string;
+}
+
+export interface AssembleOptions {
+    /**
+     * Whether the adapter prints headers (ATH1).
+     */
+    headers?: boolean;
+    /**
+     * Protocol number (see ATSP/ATDPN), used to tell the header formats apart. With "0" or
+     * no protocol the format is guessed from the line.
+     */
+    protocol?: string;
+}
+
+/**
+ * A message being assembled.
+ */
+interface PartialMessage extends ResponseMessage {
+    /**
+     * Number of legacy lines joined into this message. 0 for CAN messages.
+     */
+    lines: number;
+    /**
+     * Total length in bytes of a CAN multi-frame message (headers on).
+     */
+    length?: number;
+}
+
+type HeaderFormat = 'can11' | 'can29' | 'legacy';
+
+/**
+ * Groups the lines received before a prompt into complete messages.
+ *
+ * Handles the ways long responses are split up:
+ *  - CAN (ISO 15765-4) multi-frame, headers off: the ELM327 prints the total length in
+ *    bytes as three hex digits, then one line per frame prefixed with its sequence number
+ *    ("014", "0: 49 02 01 31 47 31", "1: ...", "2: ...").
+ *  - CAN multi-frame, headers on: every frame starts with the identifier and the ISO-TP
+ *    PCI byte ("7E8 10 14 49 02 01 31 47 31", "7E8 21 ...").
+ *  - Legacy (J1850, ISO 9141, KWP) multi-line: every line repeats mode and PID, followed
+ *    by a message sequence number starting at 01 ("49 02 01 00 00 00 31", "49 02 02 ...").
+ *    The data of consecutive lines is joined behind a single mode and PID.
+ * @param {string[]} lines The lines received before the prompt.
+ * @param {AssembleOptions} options Header settings of the adapter.
+ * @return {ResponseMessage[]} The messages in order of arrival.
+ */
+export function assembleResponse(lines: string[], options: AssembleOptions = {}): ResponseMessage[] {
+    const messages: PartialMessage[] = [];
+    let frameLength = 0; //Length in bytes of the CAN multi-frame message being assembled (headers off).
+
+    lines.map(normalizeLine).forEach(line => {
+        if (options.headers && /^[0-9A-F]{7,}$/.test(line)) {
+            addHeaderLine(messages, line, headerFormat(line, options.protocol));
+            return;
+        }
+
+        const frame = /^([0-9A-F]):([0-9A-F]*)$/.exec(line);
+        if (!options.headers && /^[0-9A-F]{3}$/.test(line)) {
+            frameLength = parseInt(line, 16);
+            messages.push({ data: '', lines: 0 });
+        } else if (frame && frameLength > 0) {
+            const message = messages[messages.length - 1];
+            message.data = (message.data + frame[2]).substr(0, frameLength * 2);
+        } else {
+            frameLength = 0;
+            addLegacyLine(messages, line, undefined);
+        }
+    });
+
+    return messages.map(message => {
+        const result: ResponseMessage = { data: message.data };
+        if (message.lines > 1) {
+            //Drop the sequence number of the first line, the others are already gone.
+            result.data = message.data.substr(0, 4) + message.data.substr(6);
+        }
+        if (message.ecu !== undefined) {
+            result.ecu = message.ecu;
+        }
+        return result;
+    });
+}
+
+/**
+ * Drops the spaces of hex data and CAN frame lines. Messages like "NO DATA" keep theirs.
+ */
+function normalizeLine(line: string) {
+    return /^[0-9A-F: ]+$/i.test(line) ? line.replace(/ /g, '').toUpperCase() : line.trim();
+}
+
+/**
+ * Works out the header format of a line printed with headers on.
+ */
+function headerFormat(line: string, protocol: string): HeaderFormat {
+    switch (protocol) {
+        case '6':
+        case '8':
+        case 'B':
+        case 'C':
+            return 'can11';
+        case '7':
+        case '9':
+        case 'A':
+            return 'can29';
+        case '1':
+        case '2':
+        case '3':
+        case '4':
+        case '5':
+            return 'legacy';
+    }
+    //11-bit identifiers have three hex digits, so only those lines have an odd length.
+    if (line.length % 2 === 1) {
+        return 'can11';
+    }
+    return line.substr(0, 4) === '18DA' ? 'can29' : 'legacy';
+}
+
+/**
+ * Adds a line with a header to the messages, joining CAN frames and legacy lines of the
+ * same ECU.
+ */
+function addHeaderLine(messages: PartialMessage[], line: string, format: HeaderFormat) {
+    if (format === 'legacy') {
+        //Priority, target and source address in front, checksum at the end.
+        addLegacyLine(messages, line.substr(6, line.length - 8), line.substr(4, 2));
+        return;
+    }
+
+    const ecu = line.substr(0, format === 'can11' ? 3 : 8);
+    const payload = line.substr(ecu.length);
+    const pci = parseInt(payload.substr(0, 2), 16);
+
+    switch (pci >> 4) {
+        case 0: //Single frame
+            messages.push({ data: payload.substr(2, (pci & 0x0F) * 2), ecu: ecu, lines: 0 });
+            break;
+        case 1: //First frame
+            const length = ((pci & 0x0F) << 8) + parseInt(payload.substr(2, 2), 16);
+            messages.push({ data: payload.substr(4, length * 2), ecu: ecu, lines: 0, length: length });
+            break;
+        case 2: //Consecutive frame
+            const message = lastMessageOf(messages, ecu);
+            if (message && message.length) {
+                message.data = (message.data + payload.substr(2)).substr(0, message.length * 2);
+            }
+            break;
+    }
+}
+
+/**
+ * Adds a line without framing to the messages, joining it to the previous message of the
+ * same ECU if it continues a legacy multi-line message.
+ */
+function addLegacyLine(messages: PartialMessage[], line: string, ecu: string) {
+    const previous = lastMessageOf(messages, ecu);
+    if (previous && continuesLegacyMessage(previous, line)) {
+        previous.data += line.substr(6);
+        previous.lines++;
+    } else {
+        messages.push({ data: line, ecu: ecu, lines: 1 });
+    }
+}
+
+function lastMessageOf(messages: PartialMessage[], ecu: string): PartialMessage {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].ecu === ecu) {
+            return messages[i];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Checks whether a line is the next part of a legacy multi-line mode 09 message.
+ */
+function continuesLegacyMessage(previous: PartialMessage, line: string): boolean {
+    if (previous.lines === 0 || line.substr(0, 2) !== '49' || line.substr(0, 4) !== previous.data.substr(0, 4)) {
+        return false;
+    }
+    const firstSequence = parseInt(previous.data.substr(4, 2), 16);
+    const sequence = parseInt(line.substr(4, 2), 16);
+    return firstSequence === 1 && sequence === previous.lines + 1;
+}
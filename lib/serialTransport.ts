@@ -0,0 +1,69 @@
+import { EventEmitter } from 'events';
+
+import { Transport } from './transport';
+
+/**
+ * The subset of a serial port object that SerialTransport relies on. Ports created with the
+ * `serialport` package (opened with `autoOpen: false`) satisfy it.
+ */
+export interface SerialPortLike {
+    open(cb: (err?: any) => void): void;
+    write(data: Buffer, cb?: (err?: any) => void): any;
+    close(cb?: (err?: any) => void): void;
+    isOpen: boolean;
+    on(event: string, listener: (...args: any[]) => void): any;
+}
+
+/**
+ * Transport for USB/RS232 ELM327 cables.
+ *
+ * The serial port itself is created by the caller, so this package does not depend on a
+ * native serial port library.
+ */
+export class SerialTransport extends EventEmitter implements Transport {
+    private listening = false;
+
+    /**
+     * @param {SerialPortLike} port A serial port that has not been opened yet.
+     */
+    constructor(public port: SerialPortLike) {
+        super();
+    }
+
+    open(success: () => void, error: (err?: any) => void) {
+        if (!this.listening) {
+            this.port.on('data', (buffer: Buffer) => {
+                this.emit('data', buffer.toString('utf-8'));
+            });
+            this.port.on('error', (err: any) => {
+                this.emit('failure', err);
+            });
+            this.port.on('close', () => {
+                this.emit('closed');
+            });
+            this.listening = true;
+        }
+
+        this.port.open((err) => {
+            if (err) {
+                error(err);
+            } else {
+                success();
+            }
+        });
+    }
+
+    write(buffer: Buffer, cb: (err?: any) => void) {
+        this.port.write(buffer, cb);
+    }
+
+    close() {
+        if (this.port.isOpen) {
+            this.port.close();
+        }
+    }
+
+    isOpen() {
+        return this.port.isOpen;
+    }
+}
@@ -0,0 +1,168 @@
+import { EventEmitter } from 'events';
+
+import { Transport } from './transport';
+
+/**
+ * Version of the session log format, written to the header line.
+ */
+const logVersion = 1;
+
+/**
+ * One line of a session log.
+ */
+export interface SessionLogEntry {
+    /**
+     * Time in ms since the recording started.
+     */
+    time: number;
+    /**
+     * 'write': a command written to the adapter. 'data': raw text received from it.
+     */
+    direction: 'write' | 'data';
+    /**
+     * Exactly as written or received, including \r and '>'.
+     */
+    data: string;
+}
+
+/**
+ * First line of a session log.
+ */
+export interface SessionLogHeader {
+    format: 'obd-session';
+    version: number;
+    /**
+     * ISO 8601 time the recording started.
+     */
+    started: string;
+}
+
+/**
+ * Anything lines can be written to, e.g. fs.createWriteStream('session.jsonl').
+ */
+export interface SessionLogOutput {
+    write(chunk: string): any;
+}
+
+/**
+ * Records the traffic between OBDReader and the adapter as line-delimited JSON: a
+ * SessionLogHeader line, then one SessionLogEntry per line. Replay it with
+ * ReplayTransport.
+ *
+ *     const recorder = new SessionRecorder(fs.createWriteStream('session.jsonl'));
+ *     reader.connect(recorder.wrap(new TcpTransport('192.168.0.10')));
+ */
+export class SessionRecorder {
+    /**
+     * The recorded entries. --! Only without an output, otherwise they are written out.
+     */
+    entries: SessionLogEntry[] = [];
+    private startTime: number;
+
+    /**
+     * @param {SessionLogOutput} output Where the log lines go. Without one, the log is kept
+     * in entries, see toString().
+     */
+    constructor(private output?: SessionLogOutput) {
+    }
+
+    /**
+     * Wraps a transport, so everything written to and received from it is recorded.
+     * @param {Transport} transport The transport to the adapter.
+     * @return {Transport} Use this one for OBDReader.connect().
+     */
+    wrap(transport: Transport): Transport {
+        return new RecordedTransport(transport, this);
+    }
+
+    /**
+     * Adds an entry to the log. Starts the recording with the first entry.
+     */
+    record(direction: 'write' | 'data', data: string) {
+        const now = Date.now();
+        if (this.startTime === undefined) {
+            this.startTime = now;
+            const header: SessionLogHeader = { format: 'obd-session', version: logVersion, started: new Date(now).toISOString() };
+            if (this.output) {
+                this.output.write(JSON.stringify(header) + '\n');
+            }
+        }
+
+        const entry: SessionLogEntry = { time: now - this.startTime, direction: direction, data: data };
+        if (this.output) {
+            this.output.write(JSON.stringify(entry) + '\n');
+        } else {
+            this.entries.push(entry);
+        }
+    }
+
+    /**
+     * The log recorded so far. --! Only without an output.
+     */
+    toString() {
+        const header: SessionLogHeader = { format: 'obd-session', version: logVersion, started: new Date(this.startTime || Date.now()).toISOString() };
+        const lines: (SessionLogHeader | SessionLogEntry)[] = [header];
+        return lines.concat(this.entries).map(line => JSON.stringify(line) + '\n').join('');
+    }
+}
+
+/**
+ * Parses a session log written by SessionRecorder.
+ * @param {string} log The log, one JSON object per line.
+ * @return {SessionLogEntry[]} The entries, without the header.
+ */
+export function parseSessionLog(log: string): SessionLogEntry[] {
+    const entries: SessionLogEntry[] = [];
+    log.split('\n').filter(line => line.trim() !== '').forEach((line, index) => {
+        const parsed: SessionLogHeader | SessionLogEntry = JSON.parse(line);
+        if (typeof parsed !== 'object' || parsed === null) {
+            throw new Error('Invalid session log entry on line ' + (index + 1));
+        }
+        if ('format' in parsed) {
+            if (parsed.format !== 'obd-session') {
+                throw new Error('Invalid session log entry on line ' + (index + 1));
+            }
+            if (parsed.version > logVersion) {
+                throw new Error('Unsupported session log version ' + parsed.version);
+            }
+            return;
+        }
+        if ((parsed.direction !== 'write' && parsed.direction !== 'data') || typeof parsed.data !== 'string') {
+            throw new Error('Invalid session log entry on line ' + (index + 1));
+        }
+        entries.push(parsed);
+    });
+    return entries;
+}
+
+/**
+ * Passes everything through to the wrapped transport and records it.
+ */
+class RecordedTransport extends EventEmitter implements Transport {
+    constructor(private transport: Transport, private recorder: SessionRecorder) {
+        super();
+        transport.on('data', (data: string) => {
+            this.recorder.record('data', data.toString());
+            this.emit('data', data);
+        });
+        transport.on('closed', () => this.emit('closed'));
+        transport.on('failure', (error: any) => this.emit('failure', error));
+    }
+
+    open(success: () => void, error: (err?: any) => void) {
+        this.transport.open(success, error);
+    }
+
+    write(buffer: Buffer, cb: (err?: any) => void) {
+        this.recorder.record('write', buffer.toString('utf-8'));
+        this.transport.write(buffer, cb);
+    }
+
+    close() {
+        this.transport.close();
+    }
+
+    isOpen() {
+        return this.transport.isOpen();
+    }
+}
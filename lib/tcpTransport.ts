@@ -0,0 +1,63 @@
+import { EventEmitter } from 'events';
+import * as net from 'net';
+
+import { Transport } from './transport';
+
+/**
+ * Transport for Wi-Fi ELM327 adapters, which expose the serial link as a TCP socket.
+ */
+export class TcpTransport extends EventEmitter implements Transport {
+    socket: net.Socket;
+    private opened = false;
+
+    /**
+     * @param {string} host Address of the adapter. Most Wi-Fi dongles use 192.168.0.10.
+     * @param {number} port TCP port of the adapter. Defaults to 35000.
+     */
+    constructor(public host: string, public port: number = 35000) {
+        super();
+    }
+
+    open(success: () => void, error: (err?: any) => void) {
+        const socket = new net.Socket();
+        socket.setEncoding('utf-8');
+        socket.setNoDelay(true);
+
+        socket.on('data', (data: string) => {
+            this.emit('data', data);
+        });
+        socket.on('error', (err: any) => {
+            if (this.opened) {
+                this.emit('failure', err);
+            } else {
+                error(err);
+            }
+        });
+        socket.on('close', () => {
+            this.opened = false;
+            this.emit('closed');
+        });
+
+        this.socket = socket;
+        socket.connect(this.port, this.host, () => {
+            this.opened = true;
+            success();
+        });
+    }
+
+    write(buffer: Buffer, cb: (err?: any) => void) {
+        this.socket.write(buffer, cb);
+    }
+
+    close() {
+        if (this.socket) {
+            this.opened = false;
+            //end() only half-closes, adapters that never close their side would keep 'closed' from firing.
+            this.socket.destroy();
+        }
+    }
+
+    isOpen() {
+        return this.opened;
+    }
+}
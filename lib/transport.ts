@@ -0,0 +1,38 @@
+/**
+ * A transport is the byte pipe between OBDReader and the ELM327 adapter.
+ *
+ * Implementations emit:
+ *  - 'data'    (data: string) Raw text received from the adapter.
+ *  - 'closed'  () The link was closed.
+ *  - 'failure' (error: any) The link failed after it was opened.
+ */
+export interface Transport {
+    /**
+     * Opens the link to the adapter.
+     * @param {Function} success Called once the link is usable.
+     * @param {Function} error Called when the link could not be opened.
+     */
+    open(success: () => void, error: (err?: any) => void): void;
+
+    /**
+     * Writes raw bytes to the adapter.
+     * @param {Buffer} buffer Bytes to send, including the trailing \r.
+     * @param {Function} cb Called when the write finished or failed.
+     */
+    write(buffer: Buffer, cb: (err?: any) => void): void;
+
+    /**
+     * Closes the link. Emits 'closed' once done.
+     */
+    close(): void;
+
+    isOpen(): boolean;
+
+    on(event: 'data', listener: (data: string) => void): this;
+    on(event: 'closed', listener: () => void): this;
+    on(event: 'failure', listener: (error: any) => void): this;
+    on(event: string, listener: (...args: any[]) => void): this;
+    once(event: string, listener: (...args: any[]) => void): this;
+    removeListener(event: string, listener: (...args: any[]) => void): this;
+    removeAllListeners(event?: string): this;
+}
@@ -0,0 +1,348 @@
+import { EventEmitter } from 'events';
+import { OBDReply } from './obd';
+import { EnumeratedValue } from './enumeratedPids';
+
+export interface TripStats {
+    /**
+     * Time the engine was started, in ms since the epoch.
+     */
+    startTime: number;
+    /**
+     * Time the engine was stopped. --! Only for ended trips.
+     */
+    endTime?: number;
+    /**
+     * Trip duration in ms.
+     */
+    duration: number;
+    /**
+     * Time in ms the engine ran while the vehicle stood still.
+     */
+    idleTime: number;
+    /**
+     * Distance in km, integrated from vss.
+     */
+    distance: number;
+    /**
+     * Fuel used in L, integrated from enginefrate, or estimated from maf.
+     */
+    fuelUsed: number;
+    /**
+     * km/h
+     */
+    maxSpeed: number;
+    /**
+     * km/h, over the whole trip including idling.
+     */
+    averageSpeed: number;
+    /**
+     * L/100km over the whole trip. Undefined before the vehicle moved.
+     */
+    averageConsumption: number;
+    /**
+     * US miles per gallon over the whole trip. Undefined before the vehicle moved.
+     */
+    averageMpg: number;
+    /**
+     * Latest fuel flow in L/h.
+     */
+    fuelFlow: number;
+    /**
+     * Latest consumption in L/100km. Undefined while standing still.
+     */
+    instantConsumption: number;
+    /**
+     * Latest US miles per gallon. Undefined while standing still.
+     */
+    instantMpg: number;
+    /**
+     * Fuel level in % when the trip started. --! Only if fli is polled.
+     */
+    startFuelLevel?: number;
+    /**
+     * Latest fuel level in %. --! Only if fli is polled.
+     */
+    fuelLevel?: number;
+}
+
+export interface TripComputerOptions {
+    /**
+     * Only use replies of this ECU, e.g. "7E8", when several ECUs report the same PIDs.
+     * Needs headers on, see OBDReader.setHeaders().
+     */
+    ecu?: string;
+    /**
+     * Fuel type code as in the fuel_type PID's code (1 = gasoline, 4 = diesel, ...).
+     * Overrides the fuel_type PID, for vehicles that don't support it. Only used to
+     * estimate the fuel flow from maf.
+     */
+    fuelType?: number;
+    /**
+     * Time in ms without rpm replies after which the trip ends. Defaults to 10000.
+     */
+    engineOffTimeout?: number;
+}
+
+interface Sample {
+    value: number;
+    time: number;
+}
+
+/**
+ * Stoichiometric air/fuel ratio and density in g/L of the liquid fuels.
+ */
+const fuelProperties: { [fuel: string]: { airFuelRatio: number, density: number } } = {
+    gasoline: { airFuelRatio: 14.7, density: 745 },
+    methanol: { airFuelRatio: 6.4, density: 792 },
+    ethanol: { airFuelRatio: 9.0, density: 789 },
+    diesel: { airFuelRatio: 14.5, density: 832 },
+    lpg: { airFuelRatio: 15.5, density: 510 },
+    propane: { airFuelRatio: 15.5, density: 493 }
+};
+
+/**
+ * Fuel properties by fuel type code (PID 51, see fuelTypes). Bi-fuel and hybrid vehicles
+ * are treated like their liquid fuel. CNG, electric and the hybrid codes without a named
+ * fuel (20-22) aren't listed and fall back to gasoline.
+ */
+const fuels: { [fuelType: number]: { airFuelRatio: number, density: number } } = {
+    1: fuelProperties.gasoline,
+    2: fuelProperties.methanol,
+    3: fuelProperties.ethanol,
+    4: fuelProperties.diesel,
+    5: fuelProperties.lpg,
+    7: fuelProperties.propane,
+    9: fuelProperties.gasoline,
+    10: fuelProperties.methanol,
+    11: fuelProperties.ethanol,
+    12: fuelProperties.lpg,
+    14: fuelProperties.propane,
+    17: fuelProperties.gasoline,
+    18: fuelProperties.ethanol,
+    19: fuelProperties.diesel,
+    23: fuelProperties.diesel
+};
+const defaultFuelType = 1;
+
+/**
+ * US miles per gallon = litresPer100kmToMpg / (L/100km).
+ */
+const litresPer100kmToMpg = 235.215;
+
+/**
+ * Derives fuel economy and trip statistics from the replies of an OBDReader. Poll rpm and
+ * vss, and enginefrate or maf, see OBDReader.addPoller(). fuel_type and fli are used when
+ * they are polled too.
+ *
+ * A trip starts with the first rpm reply above 0 and ends with an rpm reply of 0, or when
+ * no rpm reply arrived for engineOffTimeout.
+ *
+ * Emits:
+ *  - 'tripStarted' (trip: TripStats)
+ *  - 'tripEnded'   (trip: TripStats)
+ *  - 'update'      (trip: TripStats) After every reply used during a trip.
+ */
+export class TripComputer extends EventEmitter {
+    /**
+     * The trip that ended last.
+     */
+    lastTrip: TripStats;
+
+    private trip: TripStats;
+    private speed: Sample;
+    private fuelFlow: Sample;
+    private hasFuelRate = false;
+    private fuelType: number;
+    private fuelLevel: number;
+    private engineOffTimer: number;
+    private engineOffTimeout: number;
+    private listener = (reply: OBDReply) => this.onReply(reply);
+
+    /**
+     * @param {EventEmitter} reader The OBDReader whose 'dataReceived' events are used.
+     * @param {TripComputerOptions} options
+     */
+    constructor(private reader: EventEmitter, private options: TripComputerOptions = {}) {
+        super();
+        this.engineOffTimeout = options.engineOffTimeout || 10000;
+        reader.on('dataReceived', this.listener);
+    }
+
+    /**
+     * Stops listening to the reader and ends the current trip.
+     */
+    close() {
+        this.reader.removeListener('dataReceived', this.listener);
+        this.endTrip();
+    }
+
+    /**
+     * The running trip, or undefined while the engine is off.
+     */
+    getCurrentTrip(): TripStats {
+        return this.trip ? this.snapshot(Date.now()) : undefined;
+    }
+
+    /**
+     * Starts a new trip, ending the current one. Trips start by themselves when the engine
+     * starts, this is for resetting the statistics.
+     */
+    startTrip() {
+        this.endTrip();
+        const now = Date.now();
+        this.trip = {
+            startTime: now,
+            duration: 0,
+            idleTime: 0,
+            distance: 0,
+            fuelUsed: 0,
+            maxSpeed: 0,
+            averageSpeed: 0,
+            averageConsumption: undefined,
+            averageMpg: undefined,
+            fuelFlow: undefined,
+            instantConsumption: undefined,
+            instantMpg: undefined,
+            startFuelLevel: this.fuelLevel,
+            fuelLevel: this.fuelLevel
+        };
+        this.speed = undefined;
+        this.fuelFlow = undefined;
+        this.resetEngineOffTimer();
+        this.emit('tripStarted', this.snapshot(now));
+    }
+
+    /**
+     * Ends the current trip, if there is one.
+     */
+    endTrip() {
+        if (!this.trip) {
+            return;
+        }
+        clearTimeout(this.engineOffTimer);
+        const now = Date.now();
+        //Integrate up to the end of the trip.
+        this.addSpeed(this.speed ? this.speed.value : 0, now);
+        this.addFuelFlow(this.fuelFlow ? this.fuelFlow.value : 0, now);
+
+        this.lastTrip = this.snapshot(now);
+        this.lastTrip.endTime = now;
+        this.trip = undefined;
+        this.emit('tripEnded', this.lastTrip);
+    }
+
+    private onReply(reply: OBDReply) {
+        if (this.options.ecu !== undefined && reply.ecu !== this.options.ecu) {
+            return;
+        }
+        if (reply.kind === 'pid' && reply.name === 'fuel_type' && reply.mode === '41') {
+            this.fuelType = (reply.value as EnumeratedValue).code;
+            return;
+        }
+        if (typeof reply.value !== 'number' || reply.mode !== '41') {
+            return;
+        }
+        const now = Date.now();
+
+        switch (reply.name) {
+            case 'rpm':
+                if (reply.value > 0 && !this.trip) {
+                    this.startTrip();
+                } else if (reply.value === 0) {
+                    this.endTrip();
+                } else {
+                    this.resetEngineOffTimer();
+                }
+                break;
+            case 'vss':
+                this.addSpeed(reply.value, now);
+                break;
+            case 'enginefrate':
+                this.hasFuelRate = true;
+                this.addFuelFlow(reply.value, now);
+                break;
+            case 'maf':
+                //The fuel rate PID is measured, the estimate is only a fallback.
+                if (!this.hasFuelRate) {
+                    this.addFuelFlow(this.mafToFuelFlow(reply.value), now);
+                }
+                break;
+            case 'fli':
+                this.fuelLevel = reply.value;
+                if (this.trip) {
+                    this.trip.fuelLevel = reply.value;
+                    if (this.trip.startFuelLevel === undefined) {
+                        this.trip.startFuelLevel = reply.value;
+                    }
+                }
+                break;
+            default:
+                return;
+        }
+
+        if (this.trip) {
+            this.emit('update', this.snapshot(now));
+        }
+    }
+
+    private addSpeed(speed: number, time: number) {
+        if (!this.trip) {
+            return;
+        }
+        if (this.speed) {
+            const elapsed = time - this.speed.time;
+            //Trapezoidal rule, km/h * ms --> km.
+            this.trip.distance += (this.speed.value + speed) / 2 * elapsed / 3600000;
+            if (this.speed.value === 0) {
+                this.trip.idleTime += elapsed;
+            }
+        }
+        this.trip.maxSpeed = Math.max(this.trip.maxSpeed, speed);
+        this.speed = { value: speed, time: time };
+    }
+
+    private addFuelFlow(flow: number, time: number) {
+        if (!this.trip) {
+            return;
+        }
+        if (this.fuelFlow) {
+            //L/h * ms --> L
+            this.trip.fuelUsed += (this.fuelFlow.value + flow) / 2 * (time - this.fuelFlow.time) / 3600000;
+        }
+        this.fuelFlow = { value: flow, time: time };
+    }
+
+    /**
+     * Estimates the fuel flow in L/h from the air flow in g/s, assuming a stoichiometric
+     * mixture. Gets too low under full load, when engines run rich.
+     */
+    private mafToFuelFlow(maf: number) {
+        const fuelType = this.options.fuelType !== undefined ? this.options.fuelType : this.fuelType;
+        const fuel = fuels[fuelType] || fuels[defaultFuelType];
+        return maf / fuel.airFuelRatio / fuel.density * 3600;
+    }
+
+    private resetEngineOffTimer() {
+        clearTimeout(this.engineOffTimer);
+        this.engineOffTimer = setTimeout(() => this.endTrip(), this.engineOffTimeout) as any as number;
+    }
+
+    private snapshot(now: number): TripStats {
+        const stats: TripStats = Object.assign({}, this.trip);
+
+        stats.duration = now - this.trip.startTime;
+        stats.averageSpeed = stats.duration > 0 ? stats.distance / (stats.duration / 3600000) : 0;
+        if (stats.distance > 0 && this.fuelFlow) {
+            stats.averageConsumption = stats.fuelUsed / stats.distance * 100;
+            stats.averageMpg = stats.averageConsumption > 0 ? litresPer100kmToMpg / stats.averageConsumption : undefined;
+        }
+        if (this.fuelFlow) {
+            stats.fuelFlow = this.fuelFlow.value;
+            if (this.speed && this.speed.value > 0) {
+                stats.instantConsumption = this.fuelFlow.value / this.speed.value * 100;
+                stats.instantMpg = stats.instantConsumption > 0 ? litresPer100kmToMpg / stats.instantConsumption : undefined;
+            }
+        }
+        return stats;
+    }
+}
@@ -0,0 +1,235 @@
+'use strict';
+
+/**
+ * Canonical unit identifiers. PID definitions are decoded in the metric unit SAE J1979
+ * specifies, everything else is reached by conversion.
+ */
+export type Unit =
+    'percent' | 'ratio' | 'count' | 'bitEncoded' |
+    'celsius' | 'fahrenheit' |
+    'kPa' | 'Pa' | 'psi' | 'inHg' | 'inH2O' | 'bar' |
+    'V' | 'mA' |
+    'degree' | 'rpm' |
+    'g/s' | 'lb/min' |
+    'km' | 'mi' |
+    'km/h' | 'mph' |
+    'L/h' | 'gal/h' | 'impgal/h' |
+    's' | 'min';
+
+export interface UnitInfo {
+    /**
+     * Symbol shown behind a value, e.g. "°C". Empty for dimensionless units.
+     */
+    symbol: string;
+    /**
+     * Number of decimals a value is shown with.
+     */
+    precision: number;
+}
+
+/**
+ * Target units a reader converts replies to.
+ */
+export interface UnitProfile {
+    /**
+     * Target unit by canonical unit, e.g. { km: 'mi' }. Units that aren't listed stay as
+     * they are.
+     */
+    units: { [unit: string]: Unit };
+    /**
+     * Target unit by PID name, for PIDs that are shown differently from other PIDs with the
+     * same unit, e.g. { map: 'inHg' }.
+     */
+    pids?: { [name: string]: Unit };
+}
+
+/**
+ * A reply value converted with a unit profile.
+ */
+export interface ConvertedValue {
+    /**
+     * The converted number, or an object/array of converted numbers for PIDs that report
+     * several values.
+     */
+    value: any;
+    unit: Unit;
+    symbol: string;
+    precision: number;
+    /**
+     * Units of object properties that differ from unit, e.g. the temperatures in "fpc".
+     */
+    fieldUnits?: { [field: string]: Unit };
+}
+
+export const units: { [unit: string]: UnitInfo } = {
+    'percent': { symbol: '%', precision: 1 },
+    'ratio': { symbol: '', precision: 3 },
+    'count': { symbol: '', precision: 0 },
+    'bitEncoded': { symbol: '', precision: 0 },
+    'celsius': { symbol: '°C', precision: 0 },
+    'fahrenheit': { symbol: '°F', precision: 0 },
+    'kPa': { symbol: 'kPa', precision: 0 },
+    'Pa': { symbol: 'Pa', precision: 0 },
+    'psi': { symbol: 'psi', precision: 1 },
+    'inHg': { symbol: 'inHg', precision: 2 },
+    'inH2O': { symbol: 'inH2O', precision: 2 },
+    'bar': { symbol: 'bar', precision: 2 },
+    'V': { symbol: 'V', precision: 3 },
+    'mA': { symbol: 'mA', precision: 2 },
+    'degree': { symbol: '°', precision: 1 },
+    'rpm': { symbol: 'rpm', precision: 0 },
+    'g/s': { symbol: 'g/s', precision: 2 },
+    'lb/min': { symbol: 'lb/min', precision: 2 },
+    'km': { symbol: 'km', precision: 0 },
+    'mi': { symbol: 'mi', precision: 0 },
+    'km/h': { symbol: 'km/h', precision: 0 },
+    'mph': { symbol: 'mph', precision: 0 },
+    'L/h': { symbol: 'L/h', precision: 2 },
+    'gal/h': { symbol: 'gal/h', precision: 2 },
+    'impgal/h': { symbol: 'gal/h', precision: 2 },
+    's': { symbol: 's', precision: 0 },
+    'min': { symbol: 'min', precision: 0 }
+};
+
+/**
+ * Conversions from canonical units, by source and target unit.
+ */
+const conversions: { [from: string]: { [to: string]: (value: number) => number } } = {
+    'celsius': { 'fahrenheit': value => value * 9 / 5 + 32 },
+    'kPa': {
+        'psi': value => value * 0.145038,
+        'inHg': value => value * 0.2953,
+        'bar': value => value / 100
+    },
+    'Pa': {
+        'inH2O': value => value * 0.00401463,
+        'inHg': value => value * 0.0002953
+    },
+    'g/s': { 'lb/min': value => value * 0.132277 },
+    'km': { 'mi': value => value * 0.621371 },
+    'km/h': { 'mph': value => value * 0.621371 },
+    'L/h': {
+        'gal/h': value => value * 0.264172,
+        'impgal/h': value => value * 0.219969
+    },
+    's': { 'min': value => value / 60 }
+};
+
+export const unitProfiles: { [name: string]: UnitProfile } = {
+    metric: { units: {} },
+    us: {
+        units: { 'celsius': 'fahrenheit', 'kPa': 'psi', 'Pa': 'inH2O', 'g/s': 'lb/min', 'km': 'mi', 'km/h': 'mph', 'L/h': 'gal/h' },
+        //Manifold and barometric pressure are read in inHg, like on a vacuum gauge.
+        pids: { 'map': 'inHg', 'baro': 'inHg' }
+    },
+    uk: {
+        units: { 'km': 'mi', 'km/h': 'mph', 'L/h': 'impgal/h', 'kPa': 'psi' }
+    }
+};
+
+/**
+ * Converts a value between units. Objects and arrays are converted property by property,
+ * anything that isn't a number is left alone.
+ * @param {any} value The value in the source unit.
+ * @param {Unit} from Source unit.
+ * @param {Unit} to Target unit.
+ */
+export function convertUnit(value: any, from: Unit, to: Unit): any {
+    if (typeof value === 'number') {
+        const conversion = conversions[from] && conversions[from][to];
+        if (from !== to && !conversion) {
+            throw new Error('No conversion from ' + from + ' to ' + to);
+        }
+        return conversion ? conversion(value) : value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => convertUnit(item, from, to));
+    }
+    if (value && typeof value === 'object') {
+        const converted: { [field: string]: any } = {};
+        Object.keys(value).forEach(field => converted[field] = convertUnit(value[field], from, to));
+        return converted;
+    }
+    return value;
+}
+
+/**
+ * Converts a decoded PID value to the units of a profile.
+ * @param {any} value The decoded value, in the canonical unit.
+ * @param {Unit} unit Canonical unit of the PID.
+ * @param {UnitProfile} profile The profile.
+ * @param {string} name Name of the PID, for the per-PID units of the profile.
+ * @param {Object} fieldUnits Canonical units of object properties that differ from `unit`,
+ * e.g. { temperature: 'celsius' }.
+ */
+export function applyUnitProfile(value: any, unit: Unit, profile: UnitProfile, name?: string, fieldUnits?: { [field: string]: Unit }): ConvertedValue {
+    const to = targetUnit(profile, unit, name);
+    const converted: ConvertedValue = {
+        value: undefined,
+        unit: to,
+        symbol: unitInfo(to).symbol,
+        precision: unitInfo(to).precision
+    };
+
+    const convertFields = (fieldValue: any): any => {
+        if (!fieldUnits || !fieldValue || typeof fieldValue !== 'object') {
+            return convertUnit(fieldValue, unit, to);
+        }
+        if (Array.isArray(fieldValue)) {
+            return fieldValue.map(convertFields);
+        }
+        const result: { [field: string]: any } = {};
+        Object.keys(fieldValue).forEach(field => {
+            const fieldUnit = fieldUnits[field];
+            if (fieldUnit) {
+                const fieldTo = targetUnit(profile, fieldUnit);
+                converted.fieldUnits = converted.fieldUnits || {};
+                converted.fieldUnits[field] = fieldTo;
+                result[field] = convertUnit(fieldValue[field], fieldUnit, fieldTo);
+            } else {
+                result[field] = convertFields(fieldValue[field]);
+            }
+        });
+        return result;
+    };
+    converted.value = convertFields(value);
+    return converted;
+}
+
+/**
+ * Works out the unit a profile shows a PID in. The per-PID unit wins over the one for the
+ * canonical unit.
+ * @param {UnitProfile} profile The profile.
+ * @param {Unit} unit Canonical unit of the PID.
+ * @param {string} name Name of the PID.
+ */
+export function targetUnit(profile: UnitProfile, unit: Unit, name?: string): Unit {
+    const candidates = [profile.pids && profile.pids[name], profile.units[unit]];
+    //Targets without a conversion, e.g. { percent: 'psi' }, are ignored.
+    const target = candidates.filter(candidate => candidate && conversions[unit] && conversions[unit][candidate])[0];
+    return target || unit;
+}
+
+/**
+ * Formats a number for display, e.g. formatValue(1234.5, 'rpm', 'de-DE') --> "1.235 rpm".
+ * @param {number} value The value.
+ * @param {Unit} unit Unit of the value.
+ * @param {string} locale BCP 47 locale, defaults to the system locale.
+ */
+export function formatValue(value: number, unit: Unit, locale?: string): string {
+    const info = unitInfo(unit);
+    const text = value.toLocaleString(locale, {
+        minimumFractionDigits: info.precision,
+        maximumFractionDigits: info.precision
+    });
+    if (!info.symbol) {
+        return text;
+    }
+    //SI style puts a space before the symbol, except for degrees and percent.
+    return info.symbol === '%' || info.symbol === '°' ? text + info.symbol : text + ' ' + info.symbol;
+}
+
+function unitInfo(unit: Unit): UnitInfo {
+    //Custom PID definitions may bring units of their own.
+    return units[unit] || { symbol: unit || '', precision: 2 };
+}
@@ -0,0 +1,174 @@
+'use strict';
+
+/**
+ * Completion counter of one monitor, see InUsePerformance.
+ */
+export interface MonitorPerformance {
+    /**
+     * Number of times the monitor completed.
+     */
+    completions: number;
+    /**
+     * Number of driving cycles in which the conditions to run the monitor were met.
+     */
+    conditions: number;
+    /**
+     * completions / conditions, 0 before the conditions were ever met. Regulations ask for
+     * a minimum ratio per monitor, often 0.1 to 0.336.
+     */
+    ratio: number;
+}
+
+/**
+ * In-use performance tracking (mode 09 PID 08 for spark ignition, PID 0B for compression
+ * ignition engines).
+ */
+export interface InUsePerformance {
+    ignition: 'spark' | 'compression';
+    /**
+     * Number of driving cycles that met the general conditions of the monitors.
+     */
+    obdConditions: number;
+    /**
+     * Number of ignition cycles.
+     */
+    ignitionCycles: number;
+    /**
+     * By monitor name, see sparkPerformanceMonitors and compressionPerformanceMonitors. Only
+     * the monitors the ECU sent counters for.
+     */
+    monitors: { [name: string]: MonitorPerformance };
+}
+
+/**
+ * Everything mode 09 tells about one ECU, see OBDReader.getVehicleInfo(). Only what the ECU
+ * answered is set.
+ */
+export interface VehicleInfo {
+    vin?: string;
+    /**
+     * Calibration IDs (software versions), e.g. ["JMB*36761500"].
+     */
+    calibrationIds?: string[];
+    /**
+     * Calibration verification numbers (checksums) in hex, one per calibration ID.
+     */
+    cvns?: string[];
+    /**
+     * Acronym and name of the ECU, e.g. "ECM-EngineControl".
+     */
+    ecuName?: string;
+    inUsePerformance?: InUsePerformance;
+}
+
+/**
+ * Monitors of PID 08 in the order of their counter pairs. The secondary oxygen sensor
+ * counters were added later and are missing in older ECUs.
+ */
+export const sparkPerformanceMonitors = ['catalystBank1', 'catalystBank2', 'oxygenSensorBank1', 'oxygenSensorBank2',
+    'egrSystem', 'secondaryAirSystem', 'evaporativeSystem', 'secondaryOxygenSensorBank1', 'secondaryOxygenSensorBank2'];
+
+/**
+ * Monitors of PID 0B in the order of their counter pairs. The fuel system counters are
+ * missing in older ECUs.
+ */
+export const compressionPerformanceMonitors = ['nmhcCatalyst', 'noxCatalyst', 'noxAdsorber', 'pmFilter',
+    'exhaustGasSensor', 'egrSystem', 'boostPressure', 'fuelSystem'];
+
+/**
+ * Drops the byte in front of the data items: the number of items on CAN, the sequence number
+ * of a single line legacy message. Joined legacy messages have none, see assembleResponse().
+ * @param {number} itemSize Bytes per data item, the data is a multiple of it.
+ */
+function itemData(bytes: string[], itemSize: number) {
+    return bytes.length % itemSize === 1 ? bytes.slice(1) : bytes;
+}
+
+function ascii(bytes: string[]) {
+    return bytes
+        .map(byte => parseInt(byte, 16))
+        //Padding is 00, legacy responses also pad with other non-printable bytes.
+        .filter(charCode => charCode >= 0x20 && charCode < 0x7F)
+        .map(charCode => String.fromCharCode(charCode))
+        .join('');
+}
+
+/**
+ * Message count PIDs (01, 03, 05, 07, 09). Legacy protocols need these to know how many
+ * messages follow, CAN ECUs answer them with the number of data items or not at all.
+ */
+export function convertMessageCount(byte: string) {
+    return parseInt(byte, 16);
+}
+
+/**
+ * PID 04, 16 ASCII characters per calibration ID, padded with 00.
+ */
+export function convertCalibrationIds(...bytes: string[]) {
+    const data = itemData(bytes, 16);
+    const ids: string[] = [];
+    for (let i = 0; i + 16 <= data.length; i += 16) {
+        ids.push(ascii(data.slice(i, i + 16)));
+    }
+    return ids;
+}
+
+/**
+ * PID 06, 4 bytes per calibration verification number.
+ */
+export function convertCalibrationVerificationNumbers(...bytes: string[]) {
+    const data = itemData(bytes, 4);
+    const cvns: string[] = [];
+    for (let i = 0; i + 4 <= data.length; i += 4) {
+        cvns.push(data.slice(i, i + 4).join('').toUpperCase());
+    }
+    return cvns;
+}
+
+/**
+ * PID 0A, 4 characters acronym, a dash and 15 characters name, padded with 00.
+ */
+export function convertEcuName(...bytes: string[]) {
+    return ascii(itemData(bytes, 20));
+}
+
+/**
+ * PID 08, 2 byte counters: OBD conditions, ignition cycles, then completions and conditions
+ * of each monitor.
+ */
+export function convertSparkPerformance(...bytes: string[]) {
+    return decodePerformance('spark', sparkPerformanceMonitors, itemData(bytes, 2));
+}
+
+/**
+ * PID 0B, laid out like PID 08 with the compression ignition monitors.
+ */
+export function convertCompressionPerformance(...bytes: string[]) {
+    return decodePerformance('compression', compressionPerformanceMonitors, itemData(bytes, 2));
+}
+
+function decodePerformance(ignition: 'spark' | 'compression', names: string[], data: string[]): InUsePerformance {
+    const counters: number[] = [];
+    for (let i = 0; i + 2 <= data.length; i += 2) {
+        counters.push(parseInt(data[i] + data[i + 1], 16));
+    }
+
+    const performance: InUsePerformance = {
+        ignition: ignition,
+        obdConditions: counters[0],
+        ignitionCycles: counters[1],
+        monitors: {}
+    };
+    names.forEach((name, index) => {
+        const completions = counters[2 + index * 2];
+        const conditions = counters[3 + index * 2];
+        if (completions !== undefined && conditions !== undefined) {
+            performance.monitors[name] = {
+                completions: completions,
+                conditions: conditions,
+                ratio: conditions > 0 ? completions / conditions : 0
+            };
+        }
+    });
+    return performance;
+}
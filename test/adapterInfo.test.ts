@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+
+import { OBDReader, OBDReply, AdapterInfo } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect, delay } from './connect';
+
+describe('Adapter probe', () => {
+    let reader: OBDReader;
+
+    afterEach(() => disconnect(reader));
+
+    function probe(emulator: ELM327Emulator) {
+        return connect(emulator).then(connected => {
+            reader = connected;
+            return reader.probeAdapter();
+        });
+    }
+
+    it('reads what a genuine adapter reports', () => {
+        return probe(new ELM327Emulator({ version: 'ELM327 v1.5', voltage: 12.6 })).then((info: AdapterInfo) => {
+            assert.strictEqual(info.identification, 'ELM327 v1.5');
+            assert.strictEqual(info.version, 1.5);
+            assert.strictEqual(info.voltage, 12.6);
+            //Nothing was requested from the vehicle yet, so the automatic search hasn't run.
+            assert.ok(info.automaticProtocol);
+            assert.strictEqual(info.protocol, '0');
+            assert.ok(info.adaptiveTiming);
+            assert.ok(info.timeoutSetting);
+            assert.ok(!info.clone);
+            assert.deepStrictEqual(info.rejectedCommands, []);
+            assert.strictEqual(reader.adapterInfo, info);
+        });
+    });
+
+    it('marks an adapter without the timing commands of its version as a clone', () => {
+        return probe(new ELM327Emulator({ version: 'ELM327 v2.1', unsupportedCommands: ['AT2', 'ST'] })).then(info => {
+            assert.ok(info.clone);
+            assert.deepStrictEqual(info.rejectedCommands, ['ATAT2', 'ATST32']);
+        });
+    });
+
+    it('does not blame the identification commands for a clone', () => {
+        return probe(new ELM327Emulator({ unsupportedCommands: ['@1', 'RV', 'AT2'] })).then(info => {
+            assert.strictEqual(info.description, undefined);
+            assert.strictEqual(info.voltage, undefined);
+            assert.deepStrictEqual(info.rejectedCommands, ['ATAT2']);
+        });
+    });
+
+    it('turns on adaptive timing when the probe fails', () => {
+        const transport = new ELM327Emulator({ unsupportedCommands: ['I'] }).createTransport();
+        reader = new OBDReader();
+        reader.discoverPidsOnConnect = false;
+        return new Promise(resolve => {
+            reader.on('debug', (message: string) => {
+                if (message.indexOf('Adapter probe failed') === 0) {
+                    resolve();
+                }
+            });
+            reader.connect(transport);
+        }).then(() => reader.request('ATRV')).then(() => {
+            assert.ok(transport.written.indexOf('ATAT2') !== -1);
+        });
+    });
+
+    /**
+     * Connects with the probe on, resolves once it's done.
+     */
+    function connectProbed(emulator: ELM327Emulator, headers: boolean) {
+        reader = new OBDReader();
+        reader.discoverPidsOnConnect = false;
+        return reader.setHeaders(headers).then(() => new Promise(resolve => {
+            reader.once('adapterInfo', resolve);
+            reader.connect(emulator.createTransport());
+        }));
+    }
+
+    it('turns headers off when the adapter rejects them', () => {
+        const emulator = new ELM327Emulator({ values: { rpm: 1000 }, unsupportedCommands: ['H1'] });
+        return connectProbed(emulator, true).then(() => {
+            assert.ok(!reader.adapterInfo.headers);
+            assert.strictEqual(reader.headers, false);
+            return reader.query('rpm');
+        }).then(reply => {
+            assert.strictEqual(reply.value, 1000);
+        });
+    });
+
+    it('keeps headers on when the adapter accepts them', () => {
+        return connectProbed(new ELM327Emulator(), true).then(() => {
+            assert.ok(reader.adapterInfo.headers);
+            return reader.query('rpm');
+        }).then(reply => {
+            assert.strictEqual(reply.ecu, '7E8');
+        });
+    });
+
+    it('polls clones one PID per request, also while the probe runs', () => {
+        const emulator = new ELM327Emulator({ vehicleProtocol: '6', unsupportedCommands: ['AT2', 'ST'] });
+        const transport = emulator.createTransport();
+        reader = new OBDReader();
+        reader.discoverPidsOnConnect = false;
+        return new Promise(resolve => {
+            reader.once('ready', () => {
+                ['rpm', 'vss', 'temp', 'iat', 'load_pct', 'throttlepos'].forEach(name => reader.addPoller(name));
+                reader.startPolling(100);
+            });
+            reader.once('adapterInfo', resolve);
+            reader.connect(transport);
+        }).then(() => delay(500)).then(() => {
+            reader.stopPolling();
+            assert.ok(reader.adapterInfo.clone);
+            const polled = transport.written.filter(command => /^01/.test(command));
+            assert.ok(polled.length > 0);
+            polled.forEach(command => assert.ok(command.length <= 5, command));
+        });
+    });
+
+    it('polls adapters before v1.3 without a response count', () => {
+        const emulator = new ELM327Emulator({ version: 'ELM327 v1.2', values: { rpm: 1000 } });
+        return connectProbed(emulator, false).then(() => new Promise(resolve => {
+            reader.on('dataReceived', (reply: OBDReply) => {
+                if (reply.name === 'rpm') {
+                    resolve(reply);
+                }
+            });
+            reader.addPoller('rpm');
+            reader.startPolling(100);
+        })).then((reply: OBDReply) => {
+            assert.strictEqual(reply.value, 1000);
+        });
+    });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+
+import { OBDReader, OBDReply } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { LoopbackTransport } from '../lib/loopbackTransport';
+import { disconnect, delay } from './connect';
+
+describe('Batched requests', () => {
+    const pollers = ['rpm', 'vss', 'temp', 'iat', 'load_pct', 'throttlepos'];
+    let reader: OBDReader;
+    let transport: LoopbackTransport;
+
+    afterEach(() => disconnect(reader));
+
+    /**
+     * Polls all pollers for a while.
+     * @param {ELM327Emulator} emulator The vehicle.
+     * @param {boolean} probe Whether the adapter is probed on connect.
+     * @return {Promise} The replies received.
+     */
+    function poll(emulator: ELM327Emulator, probe: boolean) {
+        const replies: OBDReply[] = [];
+        reader = new OBDReader();
+        reader.probeAdapterOnConnect = probe;
+        reader.discoverPidsOnConnect = false;
+        transport = emulator.createTransport();
+        return new Promise<void>(resolve => {
+            reader.once('ready', () => resolve());
+            reader.connect(transport);
+        }).then(() => {
+            reader.on('dataReceived', (reply: OBDReply) => replies.push(reply));
+            pollers.forEach(name => reader.addPoller(name));
+            reader.startPolling(100);
+            return delay(800);
+        }).then(() => {
+            reader.stopPolling();
+            return replies;
+        });
+    }
+
+    function polledRequests() {
+        return transport.written.filter(command => /^01/.test(command));
+    }
+
+    it('asks for up to six PIDs per request on CAN', () => {
+        return poll(new ELM327Emulator({ vehicleProtocol: '6' }), false).then(replies => {
+            //Mode, up to six PIDs and the response count digit.
+            assert.ok(polledRequests().some(command => command.length > 5), polledRequests().join(' '));
+            polledRequests().forEach(command => assert.ok(command.length <= 15, command));
+            pollers.forEach(name => assert.ok(replies.some(reply => reply.name === name), name));
+        });
+    });
+
+    it('asks for one PID per request on legacy protocols', () => {
+        return poll(new ELM327Emulator({ vehicleProtocol: '3' }), false).then(replies => {
+            assert.ok(polledRequests().length > 0);
+            polledRequests().forEach(command => assert.ok(command.length <= 5, command));
+            pollers.forEach(name => assert.ok(replies.some(reply => reply.name === name), name));
+        });
+    });
+
+    [['6', false], ['3', true]].forEach(([protocol, unmet]: [string, boolean]) => {
+        it((unmet ? 'reports' : 'does not report') + ' unmet rates of six pollers on protocol ' + protocol, function () {
+            //Every command takes 100 ms, the init sequence included.
+            this.timeout(5000);
+            const emulator = new ELM327Emulator({ vehicleProtocol: protocol, responseDelay: 100 });
+            let reported = false;
+            reader = new OBDReader();
+            reader.probeAdapterOnConnect = false;
+            reader.discoverPidsOnConnect = false;
+            reader.setProtocol(protocol);
+            reader.on('ratesUnmet', () => reported = true);
+            return new Promise<void>(resolve => {
+                reader.once('ready', () => resolve());
+                reader.connect(emulator.createTransport());
+            }).then(() => {
+                pollers.forEach(name => reader.addPoller(name, { rateHz: 2 }));
+                reader.startPolling(500);
+                return delay(1200);
+            }).then(() => {
+                reader.stopPolling();
+                assert.strictEqual(reported, unmet);
+            });
+        });
+    });
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+
+import { main } from '../lib/cli';
+
+describe('Command-line tool', () => {
+    /**
+     * Runs the tool with console.log and console.error captured.
+     * @param {string} args The arguments behind "obd".
+     */
+    function run(args: string) {
+        const out: string[] = [];
+        const err: string[] = [];
+        const log = console.log;
+        const error = console.error;
+        console.log = (text: string) => out.push(text);
+        console.error = (text: string) => err.push(text);
+        const restore = () => {
+            console.log = log;
+            console.error = error;
+        };
+        return main(args.split(' ').filter(arg => arg !== '')).then(code => {
+            restore();
+            return { code: code, out: out.join('\n'), err: err.join('\n') };
+        }, (e: Error) => {
+            restore();
+            throw e;
+        });
+    }
+
+    it('prints the usage', () => {
+        return run('--help').then(result => {
+            assert.strictEqual(result.code, 0);
+            assert.ok(result.out.indexOf('Usage: obd <command> [options]') === 0);
+        });
+    });
+
+    [['', 'Usage: obd'], ['--tcp', 'Missing value for --tcp'], ['scan --fast', 'Unknown option --fast'], ['erase', 'Unknown command "erase"'],
+        ['dtc clear --emulator', 'Add --yes to clear']].forEach(([args, message]) => {
+        it('exits with 2 for "' + args + '"', () => {
+            return run(args).then(result => {
+                assert.strictEqual(result.code, 2);
+                assert.ok((result.err + result.out).indexOf(message) !== -1, result.err);
+            });
+        });
+    });
+
+    it('scans the vehicle', () => {
+        return run('scan --emulator --json').then(result => {
+            assert.strictEqual(result.code, 0, result.err);
+            const data = JSON.parse(result.out);
+            assert.deepStrictEqual([data.adapter.identification, data.protocol, data.vin], ['ELM327 v1.5', '6', '1G1JC5444R7252367']);
+        });
+    });
+
+    it('lists the supported PIDs', () => {
+        return run('pids --emulator --json').then(result => {
+            assert.strictEqual(result.code, 0, result.err);
+            const data = JSON.parse(result.out);
+            assert.ok(data.unknown.some((pid: { command: string, name: string }) => pid.command === '010C' && pid.name === 'rpm'));
+        });
+    });
+
+    it('reads the trouble codes', () => {
+        return run('dtc read --emulator --json').then(result => {
+            assert.strictEqual(result.code, 0, result.err);
+            const data = JSON.parse(result.out);
+            assert.deepStrictEqual(data.stored.map((dtc: { code: string }) => dtc.code), ['P0133']);
+            assert.deepStrictEqual([data.pending, data.permanent], [[], []]);
+            return run('dtc read --emulator');
+        }).then(result => {
+            assert.ok(/^Stored \(1\):\n {2}P0133 {2}\S/.test(result.out), result.out);
+        });
+    });
+
+    it('clears the trouble codes', () => {
+        return run('dtc clear --yes --emulator').then(result => {
+            assert.strictEqual(result.code, 0, result.err);
+            assert.strictEqual(result.out, 'Trouble codes cleared.');
+        });
+    });
+
+    it('sends raw commands', () => {
+        return run('raw atrv --emulator --json').then(result => {
+            assert.strictEqual(result.code, 0, result.err);
+            assert.deepStrictEqual(JSON.parse(result.out), { command: 'ATRV', lines: ['12.6V'] });
+        });
+    });
+
+    it('exits with 1 when it can\'t connect', () => {
+        return run('scan --emulator --units imperial').then(result => {
+            assert.strictEqual(result.code, 1);
+            assert.ok(result.err.indexOf('Could not connect: Unknown unit profile imperial') === 0, result.err);
+        });
+    });
+});
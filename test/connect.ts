@@ -0,0 +1,24 @@
+import { OBDReader } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+
+/**
+ * Connects a reader to the emulator, resolves once the reader is ready. Skips the adapter
+ * probe and PID discovery, so only the requests of a test are sent.
+ */
+export function connect(emulator: ELM327Emulator): Promise<OBDReader> {
+    const reader = new OBDReader();
+    reader.probeAdapterOnConnect = false;
+    reader.discoverPidsOnConnect = false;
+    return new Promise<OBDReader>(resolve => {
+        reader.once('ready', () => resolve(reader));
+        reader.connect(emulator.createTransport());
+    });
+}
+
+export function disconnect(reader: OBDReader): Promise<void> {
+    return new Promise<void>(resolve => reader.disconnect(() => resolve()));
+}
+
+export function delay(ms: number): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
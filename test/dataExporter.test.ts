@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+
+import { OBDReader } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { DataExporter, ExportOptions } from '../lib/dataExporter';
+import { connect, disconnect, delay } from './connect';
+
+describe('DataExporter', () => {
+    let reader: OBDReader;
+
+    afterEach(() => disconnect(reader));
+
+    /**
+     * Exports the pollers of the reader for a few polling cycles.
+     * @param {Function} before Runs after the export started, before polling.
+     * @return {Promise} The exported lines.
+     */
+    function exportLines(emulator: ELM327Emulator, pollers: string[], options: ExportOptions, before?: () => Promise<any>) {
+        const chunks: string[] = [];
+        let exporter: DataExporter;
+        return connect(emulator).then(connected => {
+            reader = connected;
+            pollers.forEach(name => reader.addPoller(name));
+            exporter = new DataExporter(reader, { write: (chunk: string) => chunks.push(chunk) }, options);
+            exporter.start();
+            return before ? before() : undefined;
+        }).then(() => {
+            reader.startPolling(50);
+            return delay(400);
+        }).then(() => {
+            reader.stopPolling();
+            exporter.stop();
+            return chunks.join('').split('\n').filter(line => line !== '');
+        });
+    }
+
+    it('writes a CSV header and one row per polling cycle', () => {
+        const emulator = new ELM327Emulator({ values: { rpm: 1000, vss: 50, lambda11: '80008000' } });
+        return exportLines(emulator, ['rpm', 'vss', 'lambda11'], {}).then(lines => {
+            assert.strictEqual(lines[0], 'timestamp,rpm (rpm),vss (km/h),lambda11.ratio,lambda11.voltage (V)');
+            assert.ok(lines.length > 2);
+            lines.slice(1).forEach(line => {
+                const cells = line.split(',');
+                assert.ok(!isNaN(Date.parse(cells[0])));
+                assert.deepStrictEqual(cells.slice(1, 3), ['1000', '50']);
+            });
+        });
+    });
+
+    it('writes InfluxDB line protocol', () => {
+        const emulator = new ELM327Emulator({ values: { rpm: 1000 } });
+        return exportLines(emulator, ['rpm'], { format: 'influx', tags: { vehicle: 'test' } }).then(lines => {
+            assert.ok(lines.length > 0);
+            lines.forEach(line => assert.ok(/^obd,vehicle=test rpm=1000 \d+$/.test(line), line));
+        });
+    });
+
+    it('leaves freeze frame replies out of the live rows', () => {
+        const emulator = new ELM327Emulator({ values: { rpm: 1000, vss: 50 }, freezeFrame: { dtc: 'P0301', values: { rpm: 3000 } } });
+        return exportLines(emulator, ['rpm', 'vss'], {}, () => reader.readFreezeFrame('rpm')).then(lines => {
+            lines.slice(1).forEach(line => assert.deepStrictEqual(line.split(',').slice(1), ['1000', '50']));
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+
+import { OBDReader } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect } from './connect';
+
+describe('Trouble codes', () => {
+    let reader: OBDReader;
+
+    afterEach(() => disconnect(reader));
+
+    it('reads stored, pending and permanent codes with descriptions', () => {
+        const emulator = new ELM327Emulator({ dtcs: ['P0133', 'U0100'], pendingDtcs: ['P0301'], permanentDtcs: ['C0035'] });
+        return connect(emulator).then(connected => {
+            reader = connected;
+            return Promise.all([reader.readStoredDTCs(), reader.readPendingDTCs(), reader.readPermanentDTCs()]);
+        }).then(([stored, pending, permanent]) => {
+            assert.deepStrictEqual(stored.map(dtc => dtc.code), ['P0133', 'U0100']);
+            assert.ok(stored[0].description.length > 0);
+            assert.deepStrictEqual(pending.map(dtc => dtc.code), ['P0301']);
+            assert.deepStrictEqual(permanent.map(dtc => dtc.code), ['C0035']);
+        });
+    });
+
+    it('reads no codes', () => {
+        return connect(new ELM327Emulator()).then(connected => {
+            reader = connected;
+            return reader.readStoredDTCs();
+        }).then(codes => assert.deepStrictEqual(codes, []));
+    });
+
+    it('clears the stored codes but not the permanent ones', () => {
+        const emulator = new ELM327Emulator({ dtcs: ['P0133'], permanentDtcs: ['P0133'] });
+        return connect(emulator).then(connected => {
+            reader = connected;
+            return reader.clearDTCs();
+        }).then(() => Promise.all([reader.readStoredDTCs(), reader.readPermanentDTCs()])).then(([stored, permanent]) => {
+            assert.deepStrictEqual(stored, []);
+            assert.deepStrictEqual(permanent.map(dtc => dtc.code), ['P0133']);
+        });
+    });
+
+    [['6', '7E8'], ['7', '18DAF110'], ['3', '10']].forEach(([protocol, ecu]) => {
+        it('reads and clears codes with headers on, protocol ' + protocol, () => {
+            const emulator = new ELM327Emulator({ vehicleProtocol: protocol, dtcs: ['P0133'] });
+            return connect(emulator).then(connected => {
+                reader = connected;
+                return reader.setHeaders(true);
+            }).then(() => reader.readStoredDTCs()).then(codes => {
+                assert.deepStrictEqual(codes.map(dtc => [dtc.code, dtc.ecu]), [['P0133', ecu]]);
+                return reader.clearDTCs();
+            }).then(() => reader.readStoredDTCs()).then(codes => {
+                assert.deepStrictEqual(codes, []);
+            });
+        });
+    });
+});
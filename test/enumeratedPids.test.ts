@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+
+import { OBDReader, isEnumeratedValue } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect } from './connect';
+
+describe('Enumerated PIDs', () => {
+    let emulator: ELM327Emulator;
+    let reader: OBDReader;
+
+    before(() => {
+        emulator = new ELM327Emulator({
+            values: { fuelsys: '0200', air_stat: '04', o2sloc: '33', o2sloc2: '05', obdsup: '06', pto_stat: '01', fuel_type: '17', emmissionreq: '0E' }
+        });
+        return connect(emulator).then(connected => reader = connected);
+    });
+
+    after(() => disconnect(reader));
+
+    it('decodes codes into their meaning', () => {
+        return Promise.all([reader.query('fuel_type'), reader.query('obdsup'), reader.query('air_stat'), reader.query('emmissionreq')]).then(replies => {
+            assert.deepStrictEqual(replies.map(reply => reply.value), [
+                { code: 23, description: 'Bifuel running diesel' },
+                { code: 6, description: 'EOBD (Europe)' },
+                { code: 4, description: 'From the outside atmosphere or off' },
+                { code: 14, description: 'Heavy Duty Vehicles (EURO IV) B1' }
+            ]);
+        });
+    });
+
+    it('decodes both fuel systems', () => {
+        return reader.query('fuelsys').then(reply => {
+            assert.deepStrictEqual(reply.value, {
+                system1: { code: 2, description: 'Closed loop, using oxygen sensor feedback' },
+                system2: { code: 0, description: 'Not present' }
+            });
+        });
+    });
+
+    it('decodes flags per sensor and bank', () => {
+        return Promise.all([reader.query('o2sloc'), reader.query('o2sloc2'), reader.query('pto_stat')]).then(([o2sloc, o2sloc2, pto]) => {
+            assert.deepStrictEqual(o2sloc.value, { code: 0x33, bank1: [true, true, false, false], bank2: [true, true, false, false] });
+            assert.deepStrictEqual(o2sloc2.value, { code: 5, bank1: [true, false], bank2: [true, false], bank3: [false, false], bank4: [false, false] });
+            assert.deepStrictEqual(pto.value, { code: 1, powerTakeOff: true });
+        });
+    });
+
+    it('keeps unknown codes', () => {
+        emulator.setValue('fuel_type', '63');
+        return reader.query('fuel_type').then(reply => {
+            emulator.setValue('fuel_type', '17');
+            assert.deepStrictEqual(reply.value, { code: 99, description: 'Unknown (99)' });
+            assert.ok(isEnumeratedValue(reply.value));
+            assert.ok(!isEnumeratedValue(99));
+        });
+    });
+
+    it('formats the description', () => {
+        return Promise.all([reader.query('fuel_type'), reader.query('fuelsys')]).then(([fuelType, fuelSystem]) => {
+            assert.strictEqual(reader.formatReply(fuelType), 'Bifuel running diesel');
+            assert.strictEqual(reader.formatReply(fuelSystem), 'system1: Closed loop, using oxygen sensor feedback, system2: Not present');
+        });
+    });
+});
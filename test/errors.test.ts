@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+
+import { OBDReader, OBDError, AdapterError, ConnectionError, RequestError, adapterErrorCode } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect } from './connect';
+
+describe('Errors', () => {
+    describe('adapterErrorCode()', () => {
+        const cases: [string, string][] = [
+            ['?', 'UNKNOWN_COMMAND'],
+            ['NO DATA', 'NO_DATA'],
+            ['UNABLE TO CONNECT', 'UNABLE_TO_CONNECT'],
+            ['BUS INIT: ...ERROR', 'BUS_INIT_ERROR'],
+            ['41 0C 1A F8 <DATA ERROR', 'DATA_ERROR'],
+            ['ERR94', 'INTERNAL_ERROR'],
+            [' can error ', 'CAN_ERROR'],
+            ['OK', undefined],
+            ['SEARCHING...', undefined],
+            ['410C1AF8', undefined]
+        ];
+        cases.forEach(([line, code]) => {
+            it('takes "' + line + '" for ' + (code || 'no error'), () => {
+                assert.strictEqual(adapterErrorCode(line), code);
+            });
+        });
+    });
+
+    it('keeps the class hierarchy when compiled to ES5', () => {
+        const error = new AdapterError('NO_DATA', '010C', 'NO DATA');
+        assert.ok(error instanceof AdapterError);
+        assert.ok(error instanceof OBDError);
+        assert.ok(error instanceof Error);
+        assert.ok(!(error instanceof RequestError));
+        assert.strictEqual(error.name, 'AdapterError');
+        assert.strictEqual(error.message, 'NO DATA in response to 010C');
+        assert.ok(new ConnectionError('Connection lost', 'CONNECTION_LOST') instanceof ConnectionError);
+    });
+
+    describe('OBDReader', () => {
+        let reader: OBDReader;
+
+        afterEach(() => reader.connected && disconnect(reader));
+
+        it('rejects with the adapter\'s error message', () => {
+            const emulator = new ELM327Emulator();
+            return connect(emulator).then(connected => {
+                reader = connected;
+                emulator.inject('CAN ERROR');
+                return reader.query('rpm');
+            }).then(() => {
+                assert.fail('the adapter answered CAN ERROR');
+            }, err => {
+                assert.ok(err instanceof AdapterError);
+                assert.deepStrictEqual([err.code, err.command, err.response], ['CAN_ERROR', '010C', 'CAN ERROR']);
+            });
+        });
+
+        it('rejects unknown PIDs', () => {
+            return connect(new ELM327Emulator()).then(connected => {
+                reader = connected;
+                return reader.query('no_such_pid');
+            }).then(() => {
+                assert.fail('the PID does not exist');
+            }, err => {
+                assert.ok(err instanceof RequestError);
+                assert.strictEqual(err.code, 'UNKNOWN_PID');
+            });
+        });
+
+        it('rejects requests without a connection', () => {
+            reader = new OBDReader();
+            return reader.query('rpm').then(() => {
+                assert.fail('nothing is connected');
+            }, err => {
+                assert.ok(err instanceof ConnectionError);
+                assert.strictEqual(err.code, 'NOT_CONNECTED');
+            });
+        });
+
+        it('throws for an invalid protocol', () => {
+            reader = new OBDReader();
+            assert.throws(() => reader.setProtocol('D'), (err: OBDError) => err instanceof OBDError && err.code === 'INVALID_ARGUMENT');
+        });
+    });
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+
+import { OBDReader } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect } from './connect';
+
+describe('Freeze frames', () => {
+    let reader: OBDReader;
+
+    afterEach(() => disconnect(reader));
+
+    function connectWithFrame() {
+        const emulator = new ELM327Emulator({
+            dtcs: ['P0301'],
+            values: { rpm: 800, temp: 88 },
+            freezeFrame: { dtc: 'P0301', values: { rpm: 3200, temp: 104 } }
+        });
+        return connect(emulator).then(connected => reader = connected);
+    }
+
+    it('decodes freeze frame PIDs like mode 01, not the live values', () => {
+        return connectWithFrame().then(() => Promise.all([reader.readFreezeFrame('rpm'), reader.readFreezeFrame('temp'), reader.query('rpm')])).then(([rpm, temp, live]) => {
+            assert.deepStrictEqual([rpm.mode, rpm.pid, rpm.frame, rpm.value], ['42', '0C', 0, 3200]);
+            assert.strictEqual(temp.value, 104);
+            assert.strictEqual(live.value, 800);
+            assert.strictEqual(live.frame, undefined);
+        });
+    });
+
+    it('reads the code that caused the frame', () => {
+        return connectWithFrame().then(() => reader.readFreezeFrame('dtcfrzf')).then(reply => {
+            assert.strictEqual(reply.value.code, 'P0301');
+        });
+    });
+
+    it('rejects with NO_DATA once the codes are cleared', () => {
+        return connectWithFrame().then(() => reader.clearDTCs()).then(() => reader.readFreezeFrame('rpm')).then(() => {
+            assert.fail('the frame should be gone');
+        }, err => {
+            assert.strictEqual(err.code, 'NO_DATA');
+        });
+    });
+
+    it('rejects names that aren\'t mode 01 PIDs', () => {
+        return connectWithFrame().then(() => reader.readFreezeFrame('vin')).then(() => {
+            assert.fail('vin is a mode 09 PID');
+        }, err => {
+            assert.strictEqual(err.code, 'UNKNOWN_PID');
+        });
+    });
+});
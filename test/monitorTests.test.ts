@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+
+import { OBDReader, decodeMonitorTests } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect } from './connect';
+
+describe('Monitor tests', () => {
+    it('decodes the results of a response', () => {
+        assert.deepStrictEqual(decodeMonitorTests('4621802400780000012C', '7E8'), [{
+            mid: '21',
+            name: 'Catalyst monitor bank 1',
+            ecu: '7E8',
+            tests: [{ tid: '80', name: 'Manufacturer test 80', scalingId: '24', unit: '', value: 120, min: 0, max: 300, passed: true }]
+        }]);
+    });
+
+    describe('OBDReader', () => {
+        let reader: OBDReader;
+
+        afterEach(() => disconnect(reader));
+
+        function connectTo(emulator: ELM327Emulator, headers = false) {
+            return connect(emulator).then(connected => {
+                reader = connected;
+                return reader.setHeaders(headers);
+            });
+        }
+
+        it('finds the monitors with results', () => {
+            return connectTo(new ELM327Emulator()).then(() => reader.discoverMonitorIds()).then(mids => {
+                assert.deepStrictEqual(mids, { unknown: ['01', '21', 'A2'] });
+            });
+        });
+
+        it('reads the results of every monitor in order', () => {
+            return connectTo(new ELM327Emulator(), true).then(() => reader.readMonitorTests()).then(results => {
+                assert.deepStrictEqual(results.map(group => [group.mid, group.ecu, group.tests.length]), [['01', '7E8', 1], ['21', '7E8', 1], ['A2', '7E8', 1]]);
+                const sensor = results[0].tests[0];
+                assert.deepStrictEqual([sensor.tid, sensor.unit, sensor.passed], ['01', 'mV', true]);
+                assert.ok(Math.abs(sensor.value - 3688 * 0.122) < 0.001);
+            });
+        });
+
+        it('fails results outside their limits', () => {
+            const emulator = new ELM327Emulator({ monitorTests: [{ mid: '21', tid: '80', scalingId: '24', value: 350, min: 0, max: 300 }] });
+            return connectTo(emulator).then(() => reader.readMonitorTests()).then(results => {
+                assert.strictEqual(results.length, 1);
+                assert.strictEqual(results[0].tests[0].passed, false);
+            });
+        });
+
+        it('rejects legacy protocols', () => {
+            return connectTo(new ELM327Emulator({ vehicleProtocol: '3' })).then(() => reader.readMonitorTests()).then(() => {
+                assert.fail('mode 06 results are only decoded on CAN');
+            }, err => {
+                assert.strictEqual(err.code, 'UNSUPPORTED_PROTOCOL');
+            });
+        });
+    });
+});
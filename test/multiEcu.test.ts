@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+
+import { OBDReader } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect } from './connect';
+
+describe('Multiple ECUs', () => {
+    let reader: OBDReader;
+
+    afterEach(() => disconnect(reader));
+
+    function connectTo(protocol: string, headers: boolean) {
+        const emulator = new ELM327Emulator({
+            vehicleProtocol: protocol,
+            values: { temp: 90 },
+            ecus: [{ address: '7E8' }, { address: '7E9', pids: ['temp'] }]
+        });
+        return connect(emulator).then(connected => {
+            reader = connected;
+            return reader.setHeaders(headers);
+        });
+    }
+
+    [['6', ['7E8', '7E9']], ['7', ['18DAF110', '18DAF118']], ['3', ['10', '18']]].forEach(([protocol, ecus]: [string, string[]]) => {
+        it('keys the replies by ECU on protocol ' + protocol, () => {
+            return connectTo(protocol, true).then(() => reader.queryByEcu('temp')).then(byEcu => {
+                assert.deepStrictEqual(Object.keys(byEcu).sort(), ecus);
+                ecus.forEach(ecu => {
+                    assert.strictEqual(byEcu[ecu].ecu, ecu);
+                    assert.strictEqual(byEcu[ecu].value, 90);
+                });
+            });
+        });
+    });
+
+    it('only gets replies from the ECUs that support a PID', () => {
+        return connectTo('6', true).then(() => reader.queryByEcu('rpm')).then(byEcu => {
+            assert.deepStrictEqual(Object.keys(byEcu), ['7E8']);
+        });
+    });
+
+    it('keys the reply "unknown" with headers off', () => {
+        return connectTo('6', false).then(() => reader.queryByEcu('rpm')).then(byEcu => {
+            assert.deepStrictEqual(Object.keys(byEcu), ['unknown']);
+            assert.strictEqual(byEcu.unknown.ecu, undefined);
+        });
+    });
+
+    it('sends requests to one ECU until the target is cleared', () => {
+        return connectTo('6', true).then(() => reader.setTargetEcu('7E1')).then(() => reader.queryByEcu('temp')).then(byEcu => {
+            assert.deepStrictEqual(Object.keys(byEcu), ['7E9']);
+            return reader.clearTargetEcu();
+        }).then(() => reader.queryByEcu('temp')).then(byEcu => {
+            assert.deepStrictEqual(Object.keys(byEcu).sort(), ['7E8', '7E9']);
+        });
+    });
+});
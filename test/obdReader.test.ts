@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+
+import { OBDReader, OBDReply } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect, delay } from './connect';
+
+describe('OBDReader', () => {
+    let emulator: ELM327Emulator;
+    let reader: OBDReader;
+
+    afterEach(() => reader && disconnect(reader));
+
+    describe('polling', () => {
+        it('sends pollers added after startPolling()', () => {
+            emulator = new ELM327Emulator({ values: { rpm: 1000 } });
+            const replies: OBDReply[] = [];
+            return connect(emulator).then(connected => {
+                reader = connected;
+                reader.on('dataReceived', (reply: OBDReply) => replies.push(reply));
+                reader.startPolling(100);
+                return delay(200);
+            }).then(() => {
+                reader.addPoller('rpm');
+                return delay(500);
+            }).then(() => {
+                assert.ok(replies.some(reply => reply.name === 'rpm' && reply.value === 1000));
+            });
+        });
+    });
+
+    describe('timeouts', () => {
+        it('does not take the late answer of a timed out command for the next one', () => {
+            emulator = new ELM327Emulator({ values: { rpm: 1000, vss: 50 } });
+            return connect(emulator).then(connected => {
+                reader = connected;
+                emulator.responseDelay = 500;
+                const late = reader.query('rpm', { timeout: 300 }).then(() => {
+                    assert.fail('rpm should time out');
+                }, err => {
+                    assert.strictEqual(err.code, 'TIMEOUT');
+                });
+                const next = reader.query('vss', { timeout: 2000 });
+                //Written right after the timeout, vss would be answered after the late rpm answer.
+                setTimeout(() => emulator.responseDelay = 0, 400);
+                return Promise.all([late, next]);
+            }).then(([, reply]) => {
+                assert.strictEqual(reply.name, 'vss');
+                assert.strictEqual(reply.value, 50);
+            });
+        });
+    });
+
+    describe('decoding', () => {
+        it('decodes baro, warm_ups and evap_vp', () => {
+            emulator = new ELM327Emulator({ values: { baro: 101, warm_ups: 12, evap_vp: 'FFF0' } });
+            return connect(emulator).then(connected => {
+                reader = connected;
+                return Promise.all(['baro', 'warm_ups', 'evap_vp'].map(name => reader.query(name)));
+            }).then(replies => {
+                assert.deepStrictEqual(replies.map(reply => reply.value), [101, 12, -4]);
+            });
+        });
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+
+import { OBDReader } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect } from './connect';
+
+describe('PID discovery', () => {
+    let reader: OBDReader;
+
+    afterEach(() => disconnect(reader));
+
+    function discover(headers: boolean) {
+        const emulator = new ELM327Emulator({ ecus: [{ address: '7E8', pids: ['rpm', 'vss', 'runtm'] }, { address: '7E9', pids: ['temp'] }] });
+        return connect(emulator).then(connected => {
+            reader = connected;
+            return reader.setHeaders(headers);
+        }).then(() => reader.discoverSupportedPids());
+    }
+
+    it('walks the bitmaps of every ECU', () => {
+        let emitted: { [ecu: string]: string[] };
+        return discover(true).then(supported => {
+            reader.on('pidsDiscovered', (pids: { [ecu: string]: string[] }) => emitted = pids);
+            assert.deepStrictEqual(Object.keys(supported).sort(), ['7E8', '7E9']);
+            ['010C', '010D', '011F'].forEach(command => assert.ok(supported['7E8'].indexOf(command) !== -1, command));
+            assert.ok(supported['7E8'].indexOf('0105') === -1);
+            assert.ok(supported['7E9'].indexOf('0105') !== -1);
+            assert.ok(supported['7E8'].indexOf('0902') !== -1);
+            assert.strictEqual(reader.supportedPids, supported);
+            return reader.discoverSupportedPids();
+        }).then(supported => {
+            assert.strictEqual(emitted, supported);
+        });
+    });
+
+    it('keys the PIDs "unknown" with headers off', () => {
+        return discover(false).then(supported => {
+            assert.deepStrictEqual(Object.keys(supported), ['unknown']);
+            assert.ok(supported.unknown.indexOf('0105') !== -1);
+        });
+    });
+
+    it('tells whether any ECU supports a PID', () => {
+        return connect(new ELM327Emulator()).then(connected => {
+            reader = connected;
+            assert.strictEqual(reader.isPidSupported('rpm'), undefined);
+            return disconnect(reader);
+        }).then(() => discover(true)).then(() => {
+            assert.strictEqual(reader.isPidSupported('rpm'), true);
+            assert.strictEqual(reader.isPidSupported('temp'), true);
+            assert.strictEqual(reader.isPidSupported('maf'), false);
+        });
+    });
+
+    it('does not add pollers for unsupported PIDs', () => {
+        return discover(true).then(() => {
+            assert.strictEqual(reader.addPoller('rpm'), true);
+            assert.strictEqual(reader.addPoller('maf'), false);
+            assert.deepStrictEqual(reader.activePollers, ['010C']);
+            reader.skipUnsupportedPids = false;
+            assert.strictEqual(reader.addPoller('maf'), true);
+            assert.deepStrictEqual(reader.activePollers, ['010C', '0110']);
+        });
+    });
+
+    it('drops unsupported pollers added before the discovery', () => {
+        const emulator = new ELM327Emulator({ ecus: [{ address: '7E8', pids: ['rpm'] }] });
+        return connect(emulator).then(connected => {
+            reader = connected;
+            reader.addPoller('rpm');
+            reader.addPoller('maf');
+            return reader.discoverSupportedPids();
+        }).then(() => {
+            assert.deepStrictEqual(reader.activePollers, ['010C']);
+        });
+    });
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+
+import { OBDReader, PidReply, PidRegistry, pidRegistry } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect } from './connect';
+
+describe('PID registry', () => {
+    const oilTemp = {
+        mode: '22', pid: '1154', bytes: 1, name: 'oil_temp', description: 'Oil temperature',
+        unit: 'celsius' as 'celsius', convertToUseful: (byte: string) => parseInt(byte, 16) - 40
+    };
+
+    describe('PidRegistry', () => {
+        it('looks definitions up by name, command and response', () => {
+            const registry = new PidRegistry([oilTemp]);
+            assert.strictEqual(registry.getByName('oil_temp'), oilTemp);
+            assert.strictEqual(registry.getByCommand('221154'), oilTemp);
+            assert.strictEqual(registry.getCommand('oil_temp'), '221154');
+            assert.strictEqual(registry.findForResponse('22', ['11', '54', '7B']), oilTemp);
+            assert.strictEqual(registry.findForResponse('22', ['11', '55', '7B']), undefined);
+        });
+
+        it('replaces the definition with the same mode and PID', () => {
+            const registry = new PidRegistry([oilTemp]);
+            registry.register({ mode: '22', pid: '1154', bytes: 1, name: 'oil_temperature', description: 'Oil temperature' });
+            assert.strictEqual(registry.getByName('oil_temp'), undefined);
+            assert.deepStrictEqual(registry.list('22').map(definition => definition.name), ['oil_temperature']);
+            assert.strictEqual(registry.unregister('oil_temperature'), true);
+            assert.strictEqual(registry.unregister('oil_temperature'), false);
+        });
+
+        it('rejects definitions without uppercase hex mode and PID or a name', () => {
+            const registry = new PidRegistry();
+            assert.throws(() => registry.register({ mode: '22', pid: '11f', bytes: 1, name: 'x', description: '' }), /uppercase hexadecimal/);
+            assert.throws(() => registry.register({ mode: '22', pid: '1154', bytes: 1, name: '', description: '' }), /needs a name/);
+        });
+    });
+
+    describe('manufacturer PIDs', () => {
+        let reader: OBDReader;
+
+        beforeEach(() => {
+            pidRegistry.register(oilTemp);
+            pidRegistry.register({ mode: '21', pid: '01', bytes: 2, name: 'raw_status', description: 'Status word' });
+        });
+
+        afterEach(() => {
+            pidRegistry.unregister('oil_temp');
+            pidRegistry.unregister('raw_status');
+            return disconnect(reader);
+        });
+
+        it('queries registered PIDs with their converter and unit', () => {
+            const emulator = new ELM327Emulator({ values: { oil_temp: 83, raw_status: '12AB' } });
+            return connect(emulator).then(connected => {
+                reader = connected;
+                return Promise.all([reader.query('oil_temp'), reader.query('raw_status')]);
+            }).then(([oil, status]) => {
+                const reply = oil as PidReply;
+                assert.deepStrictEqual([reply.kind, reply.mode, reply.pid, reply.value, reply.unit], ['pid', '62', '1154', 83, 'celsius']);
+                assert.strictEqual(status.value, '12AB');
+            });
+        });
+    });
+});
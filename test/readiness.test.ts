@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+
+import { OBDReader, decodeMonitorStatus, combineMonitorStatus } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect } from './connect';
+
+describe('Readiness', () => {
+    describe('decodeMonitorStatus()', () => {
+        it('decodes the monitors of a spark ignition engine', () => {
+            const status = decodeMonitorStatus('81', '07', '65', '04');
+            assert.deepStrictEqual([status.mil, status.numberOfErrors, status.ignition], [1, 1, 'spark']);
+            assert.deepStrictEqual(status.monitors.misfire, { available: true, complete: true });
+            assert.deepStrictEqual(status.monitors.evaporativeSystem, { available: true, complete: false });
+            assert.deepStrictEqual(status.monitors.heatedCatalyst, { available: false, complete: false });
+        });
+
+        it('decodes the monitors of a compression ignition engine', () => {
+            const status = decodeMonitorStatus('00', '0F', '41', '40');
+            assert.strictEqual(status.ignition, 'compression');
+            assert.deepStrictEqual(status.monitors.nmhcCatalyst, { available: true, complete: true });
+            assert.deepStrictEqual(status.monitors.pmFilter, { available: true, complete: false });
+            assert.strictEqual(status.monitors.catalyst, undefined);
+        });
+    });
+
+    it('combines the monitors of several ECUs', () => {
+        const combined = combineMonitorStatus([decodeMonitorStatus('00', '07', '01', '00'), decodeMonitorStatus('82', '07', '03', '01')]);
+        assert.deepStrictEqual([combined.mil, combined.numberOfErrors], [1, 2]);
+        assert.deepStrictEqual(combined.monitors.catalyst, { available: true, complete: false });
+        assert.deepStrictEqual(combined.monitors.heatedCatalyst, { available: true, complete: true });
+    });
+
+    describe('getReadinessReport()', () => {
+        let reader: OBDReader;
+
+        afterEach(() => disconnect(reader));
+
+        function report(emulator: ELM327Emulator, allowedIncomplete?: number) {
+            return connect(emulator).then(connected => {
+                reader = connected;
+                return reader.getReadinessReport({ allowedIncomplete: allowedIncomplete });
+            });
+        }
+
+        it('passes a vehicle with all monitors complete', () => {
+            return report(new ELM327Emulator({ values: { monitorstat: '00076500' } })).then(result => {
+                assert.ok(result.ready);
+                assert.deepStrictEqual(result.reasons, []);
+                assert.deepStrictEqual(result.incomplete, []);
+                assert.ok(result.complete.indexOf('catalyst') !== -1);
+                assert.ok(result.unavailable.indexOf('heatedCatalyst') !== -1);
+                assert.strictEqual(result.thisDrivingCycle.monitors.catalyst.complete, true);
+            });
+        });
+
+        it('fails a vehicle with the MIL on', () => {
+            return report(new ELM327Emulator({ dtcs: ['P0301'] })).then(result => {
+                assert.ok(!result.ready);
+                assert.deepStrictEqual([result.mil, result.numberOfErrors], [true, 1]);
+                assert.strictEqual(result.reasons.length, 1);
+            });
+        });
+
+        it('fails a vehicle whose monitors haven\'t run since the codes were cleared', () => {
+            const emulator = new ELM327Emulator({ dtcs: ['P0301'] });
+            return connect(emulator).then(connected => {
+                reader = connected;
+                return reader.clearDTCs();
+            }).then(() => reader.getReadinessReport()).then(result => {
+                assert.ok(!result.ready);
+                assert.ok(!result.mil);
+                assert.deepStrictEqual(result.incomplete.sort(), ['catalyst', 'evaporativeSystem', 'oxygenSensor', 'oxygenSensorHeater']);
+                return reader.getReadinessReport({ allowedIncomplete: 4 });
+            }).then(result => {
+                assert.ok(result.ready);
+            });
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+
+import { OBDReader, OBDReply, ConnectionState } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { LoopbackTransport } from '../lib/loopbackTransport';
+import { disconnect, delay } from './connect';
+
+describe('Reconnect', () => {
+    let reader: OBDReader;
+    let transport: LoopbackTransport;
+    let states: ConnectionState[];
+    let errors: any[];
+
+    beforeEach(() => {
+        transport = new ELM327Emulator({ values: { rpm: 1000 } }).createTransport();
+        reader = new OBDReader();
+        reader.probeAdapterOnConnect = false;
+        reader.discoverPidsOnConnect = false;
+        reader.reconnectDelay = 50;
+        states = [];
+        errors = [];
+        reader.on('stateChange', (state: ConnectionState) => states.push(state));
+        reader.on('error', (err: any) => errors.push(err));
+    });
+
+    afterEach(() => disconnect(reader));
+
+    function connect() {
+        return new Promise<void>(resolve => {
+            reader.once('ready', () => resolve());
+            reader.connect(transport);
+        });
+    }
+
+    function nextReady() {
+        return new Promise<void>(resolve => reader.once('ready', () => resolve()));
+    }
+
+    it('goes through the states of a connect', () => {
+        return connect().then(() => {
+            assert.deepStrictEqual(states, ['connecting', 'initializing', 'ready']);
+            assert.strictEqual(reader.state, 'ready');
+            assert.ok(reader.connected);
+        });
+    });
+
+    it('reconnects a lost link and resumes polling', () => {
+        const replies: OBDReply[] = [];
+        return connect().then(() => {
+            reader.addPoller('rpm');
+            reader.startPolling(100);
+            states = [];
+            const ready = nextReady();
+            transport.close();
+            return ready;
+        }).then(() => {
+            assert.deepStrictEqual(states, ['reconnecting', 'initializing', 'ready']);
+            assert.deepStrictEqual(errors, []);
+            reader.on('dataReceived', (reply: OBDReply) => replies.push(reply));
+            return delay(300);
+        }).then(() => {
+            assert.ok(replies.some(reply => reply.name === 'rpm' && reply.value === 1000));
+        });
+    });
+
+    it('rejects pending requests when the link is lost', () => {
+        return connect().then(() => {
+            reader.autoReconnect = false;
+            const pending = reader.query('rpm');
+            transport.close();
+            return pending;
+        }).then(() => {
+            assert.fail('the link was lost before the answer');
+        }, err => {
+            assert.strictEqual(err.code, 'CONNECTION_LOST');
+        });
+    });
+
+    it('stays disconnected without autoReconnect', () => {
+        return connect().then(() => {
+            reader.autoReconnect = false;
+            transport.close();
+            return delay(100);
+        }).then(() => {
+            assert.strictEqual(reader.state, 'disconnected');
+            assert.deepStrictEqual(errors.map(err => err.code), ['CONNECTION_LOST']);
+        });
+    });
+
+    it('gives up after maxReconnectAttempts', () => {
+        return connect().then(() => {
+            reader.maxReconnectAttempts = 2;
+            transport.open = (success, error) => setImmediate(() => error(new Error('Adapter gone')));
+            transport.close();
+            //Attempts after 50 and 100 ms.
+            return delay(300);
+        }).then(() => {
+            assert.strictEqual(reader.state, 'disconnected');
+            assert.deepStrictEqual(errors.map(err => err.code), ['OPEN_FAILED', 'OPEN_FAILED', 'RECONNECT_FAILED']);
+        });
+    });
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+
+import { OBDReader, OBDReply, isPidReply } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect } from './connect';
+
+describe('Reply kinds', () => {
+    let emulator: ELM327Emulator;
+    let reader: OBDReader;
+    let replies: OBDReply[];
+
+    beforeEach(() => {
+        emulator = new ELM327Emulator({ values: { rpm: 1726, lambda11: 'FFFF8000' }, dtcs: ['P0301'], vin: 'WVWZZZ1JZXW000001' });
+        replies = [];
+        return connect(emulator).then(connected => {
+            reader = connected;
+            reader.on('dataReceived', (reply: OBDReply) => replies.push(reply));
+        });
+    });
+
+    afterEach(() => disconnect(reader));
+
+    it('tells vehicle data, trouble codes and the VIN apart', () => {
+        return reader.query('rpm')
+            .then(() => reader.readStoredDTCs())
+            .then(() => reader.query('vin'))
+            .then(() => {
+                //The first request also gets the SEARCHING... of the protocol search.
+                const data = replies.filter(reply => reply.kind !== 'status');
+                assert.deepStrictEqual(data.map(reply => reply.kind), ['pid', 'dtc', 'vin']);
+                const [rpm, dtc, vin] = data;
+                assert.deepStrictEqual([rpm.mode, rpm.pid, rpm.name, rpm.value], ['41', '0C', 'rpm', 1726]);
+                assert.deepStrictEqual([dtc.mode, dtc.name, dtc.kind === 'dtc' && dtc.value[0].code], ['43', 'requestdtc', 'P0301']);
+                assert.deepStrictEqual([vin.mode, vin.pid, vin.value], ['49', '02', 'WVWZZZ1JZXW000001']);
+            });
+    });
+
+    it('reports adapter messages as status replies', () => {
+        emulator.inject('NO DATA');
+        return reader.query('rpm').catch((): void => undefined).then(() => {
+            assert.deepStrictEqual(replies, [{ kind: 'status', value: 'NO DATA', error: 'NO_DATA' }]);
+        });
+    });
+
+    it('reports data without a definition as unknown', () => {
+        emulator.inject('41 FE 00');
+        return reader.query('rpm').catch((): void => undefined).then(() => {
+            assert.deepStrictEqual(replies, [{ kind: 'unknown', mode: '41', pid: 'FE' }]);
+        });
+    });
+
+    it('narrows the value with isPidReply()', () => {
+        return reader.query('lambda11').then(reply => {
+            assert.ok(isPidReply(reply, 'lambda11'));
+            assert.ok(!isPidReply(reply, 'rpm'));
+            if (isPidReply(reply, 'lambda11')) {
+                assert.ok(Math.abs(reply.value.ratio - 2) < 0.001, String(reply.value.ratio));
+                assert.ok(Math.abs(reply.value.voltage - 4) < 0.001, String(reply.value.voltage));
+            }
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+
+import { OBDReader } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { assembleResponse } from '../lib/responseAssembler';
+import { connect, disconnect } from './connect';
+
+describe('Response assembly', () => {
+    const vinHex = '3147314A43353434345237323532333637';
+
+    describe('assembleResponse()', () => {
+        it('joins CAN frames with headers off', () => {
+            const lines = ['014', '0: 49 02 01 31 47 31', '1: 4A 43 35 34 34 34 52', '2: 37 32 35 32 33 36 37'];
+            assert.deepStrictEqual(assembleResponse(lines), [{ data: '490201' + vinHex }]);
+        });
+
+        it('joins CAN frames with headers on and keeps the ECU', () => {
+            const lines = ['7E8 10 14 49 02 01 31 47 31', '7E8 21 4A 43 35 34 34 34 52', '7E8 22 37 32 35 32 33 36 37'];
+            assert.deepStrictEqual(assembleResponse(lines, { headers: true, protocol: '6' }), [{ data: '490201' + vinHex, ecu: '7E8' }]);
+        });
+
+        it('keeps the frames of two ECUs apart', () => {
+            const lines = ['7E8 06 41 00 BE 3E B8 13', '7E9 06 41 00 98 18 80 01'];
+            assert.deepStrictEqual(assembleResponse(lines, { headers: true, protocol: '6' }), [
+                { data: '4100BE3EB813', ecu: '7E8' },
+                { data: '410098188001', ecu: '7E9' }
+            ]);
+        });
+
+        it('joins numbered legacy lines behind one mode and PID', () => {
+            const lines = ['49 02 01 00 00 00 31', '49 02 02 47 31 4A 43', '49 02 03 35 34 34 34', '49 02 04 52 37 32 35', '49 02 05 32 33 36 37'];
+            assert.deepStrictEqual(assembleResponse(lines), [{ data: '4902000000' + vinHex }]);
+        });
+
+        it('passes messages through', () => {
+            assert.deepStrictEqual(assembleResponse(['NO DATA']), [{ data: 'NO DATA' }]);
+        });
+    });
+
+    describe('VIN', () => {
+        let reader: OBDReader;
+
+        afterEach(() => disconnect(reader));
+
+        [['6', false], ['6', true], ['7', true], ['3', false], ['3', true]].forEach(([protocol, headers]: [string, boolean]) => {
+            it('reads the VIN on protocol ' + protocol + ' with headers ' + (headers ? 'on' : 'off'), () => {
+                const emulator = new ELM327Emulator({ vehicleProtocol: protocol, vin: 'WVWZZZ1JZXW000001' });
+                return connect(emulator).then(connected => {
+                    reader = connected;
+                    return reader.setHeaders(headers);
+                }).then(() => reader.query('vin')).then(reply => {
+                    assert.strictEqual(reply.value, 'WVWZZZ1JZXW000001');
+                });
+            });
+        });
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+
+import { OBDReader, SessionRecorder, ReplayTransport, parseSessionLog } from '../lib/obd';
+import { Transport } from '../lib/transport';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { disconnect } from './connect';
+
+describe('Session recording', () => {
+    function connectTo(transport: Transport) {
+        const reader = new OBDReader();
+        reader.probeAdapterOnConnect = false;
+        reader.discoverPidsOnConnect = false;
+        return new Promise<OBDReader>(resolve => {
+            reader.once('ready', () => resolve(reader));
+            reader.connect(transport);
+        });
+    }
+
+    function queryValues(reader: OBDReader) {
+        return reader.query('rpm').then(rpm => reader.query('vss').then(vss => [rpm.value, vss.value]));
+    }
+
+    it('replays a recorded session', () => {
+        const recorder = new SessionRecorder();
+        const emulator = new ELM327Emulator({ values: { rpm: 1500, vss: 42 } });
+        let recorded: unknown[];
+        return connectTo(recorder.wrap(emulator.createTransport())).then(reader => {
+            return queryValues(reader).then(values => {
+                recorded = values;
+                return disconnect(reader);
+            });
+        }).then(() => {
+            const log = recorder.toString();
+            assert.ok(log.split('\n')[0].indexOf('"format":"obd-session"') !== -1);
+            const replay = new ReplayTransport(log);
+            const mismatches: string[] = [];
+            replay.on('mismatch', (written: string) => mismatches.push(written));
+            return connectTo(replay).then(reader => queryValues(reader).then(values => {
+                assert.deepStrictEqual(values, recorded);
+                assert.deepStrictEqual(values, [1500, 42]);
+                assert.deepStrictEqual(mismatches, []);
+                return disconnect(reader);
+            }));
+        });
+    });
+
+    it('parses the entries of a log without the header', () => {
+        const log = '{"format":"obd-session","version":1,"started":"2020-01-01T00:00:00.000Z"}\n' +
+            '{"time":0,"direction":"write","data":"010C\\r"}\n' +
+            '{"time":12,"direction":"data","data":"410C1770\\r\\r>"}\n';
+        assert.deepStrictEqual(parseSessionLog(log), [
+            { time: 0, direction: 'write', data: '010C\r' },
+            { time: 12, direction: 'data', data: '410C1770\r\r>' }
+        ]);
+    });
+
+    it('rejects logs of a newer version', () => {
+        assert.throws(() => parseSessionLog('{"format":"obd-session","version":99,"started":""}'), /Unsupported session log version 99/);
+    });
+
+    ['null', '42', '"text"', '{"direction":"sideways","data":""}'].forEach(line => {
+        it('rejects the entry ' + line, () => {
+            assert.throws(() => parseSessionLog('{"time":0,"direction":"data","data":""}\n' + line), /^Error: Invalid session log entry on line 2$/);
+        });
+    });
+});
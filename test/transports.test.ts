@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as net from 'net';
+
+import { OBDReader, OBDReply } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { LoopbackTransport } from '../lib/loopbackTransport';
+import { TcpTransport } from '../lib/tcpTransport';
+import { disconnect } from './connect';
+
+describe('Transports', () => {
+    it('answers through a loopback transport', () => {
+        const transport = new LoopbackTransport(command => command === 'ATZ' ? 'ELM327 v1.5\r\r>' : 'OK\r\r>');
+        const reader = new OBDReader();
+        reader.probeAdapterOnConnect = false;
+        reader.discoverPidsOnConnect = false;
+        return new Promise(resolve => {
+            reader.once('ready', resolve);
+            reader.connect(transport);
+        }).then(() => {
+            assert.strictEqual(transport.written[0], 'ATZ');
+            return disconnect(reader);
+        });
+    });
+
+    it('does not stack transport listeners on repeated connect()', () => {
+        const transport = new ELM327Emulator({ values: { rpm: 1000 } }).createTransport();
+        const reader = new OBDReader();
+        reader.probeAdapterOnConnect = false;
+        reader.discoverPidsOnConnect = false;
+        const ready = () => new Promise(resolve => {
+            reader.once('ready', resolve);
+            reader.connect(transport);
+        });
+        const replies: OBDReply[] = [];
+        return ready().then(() => disconnect(reader)).then(ready).then(() => {
+            reader.on('dataReceived', (reply: OBDReply) => replies.push(reply));
+            return reader.query('rpm');
+        }).then(reply => {
+            assert.strictEqual(reply.value, 1000);
+            assert.strictEqual(replies.filter(received => received.name === 'rpm').length, 1);
+            return disconnect(reader);
+        });
+    });
+
+    it('closes a TCP link whose other side stays open', () => {
+        //allowHalfOpen keeps the server's side open after the client ends its side.
+        const sockets: net.Socket[] = [];
+        const server = net.createServer({ allowHalfOpen: true }, socket => sockets.push(socket));
+        return new Promise(resolve => server.listen(0, '127.0.0.1', resolve)).then(() => {
+            const transport = new TcpTransport('127.0.0.1', server.address().port);
+            return new Promise((resolve, reject) => transport.open(resolve, reject)).then(() => {
+                assert.ok(transport.isOpen());
+                const closed = new Promise(resolve => transport.on('closed', resolve));
+                transport.close();
+                assert.ok(!transport.isOpen());
+                return closed;
+            });
+        }).then(() => {
+            sockets.forEach(socket => socket.destroy());
+            return new Promise(resolve => server.close(resolve));
+        });
+    });
+});
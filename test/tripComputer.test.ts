@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+
+import { OBDReader } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { TripComputer } from '../lib/tripComputer';
+import { connect, disconnect } from './connect';
+
+describe('TripComputer', () => {
+    let reader: OBDReader;
+    let tripComputer: TripComputer;
+
+    afterEach(() => {
+        tripComputer.close();
+        return disconnect(reader);
+    });
+
+    /**
+     * Fuel flow in L/h the trip computer estimates from a maf of 10 g/s.
+     * @param {string} fuelType Raw fuel_type byte the vehicle sends.
+     */
+    function fuelFlow(fuelType: string) {
+        const emulator = new ELM327Emulator({ values: { rpm: 800, maf: 10, fuel_type: fuelType } });
+        return connect(emulator).then(connected => {
+            reader = connected;
+            tripComputer = new TripComputer(reader);
+            return ['fuel_type', 'rpm', 'maf'].reduce((previous, name) => previous.then(() => reader.query(name)), Promise.resolve(undefined));
+        }).then(() => tripComputer.getCurrentTrip().fuelFlow);
+    }
+
+    //10 g/s / air/fuel ratio / density in g/L * 3600 s/h.
+    const cases: [string, string, number][] = [
+        ['01', 'gasoline', 10 / 14.7 / 745 * 3600],
+        ['11', 'hybrid gasoline', 10 / 14.7 / 745 * 3600],
+        ['12', 'hybrid ethanol', 10 / 9.0 / 789 * 3600],
+        ['13', 'hybrid diesel', 10 / 14.5 / 832 * 3600],
+        ['0C', 'bifuel LPG', 10 / 15.5 / 510 * 3600],
+        ['17', 'bifuel diesel', 10 / 14.5 / 832 * 3600],
+        ['14', 'hybrid electric (gasoline default)', 10 / 14.7 / 745 * 3600]
+    ];
+    cases.forEach(([code, fuel, expected]) => {
+        it('estimates the fuel flow of ' + fuel + ' from maf', () => {
+            return fuelFlow(code).then(flow => assert.ok(Math.abs(flow - expected) < 0.001, flow + ' L/h'));
+        });
+    });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+
+import { OBDReader, OBDReply, unitProfiles, convertUnit, formatValue } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { DataExporter } from '../lib/dataExporter';
+import { connect, disconnect } from './connect';
+
+describe('Units', () => {
+    let reader: OBDReader;
+
+    afterEach(() => {
+        const connected = reader;
+        reader = undefined;
+        return connected && disconnect(connected);
+    });
+
+    it('converts between units', () => {
+        assert.strictEqual(convertUnit(100, 'celsius', 'fahrenheit'), 212);
+        assert.ok(Math.abs(convertUnit(100, 'km/h', 'mph') - 62.137) < 0.001);
+    });
+
+    it('formats values for the locale', () => {
+        assert.strictEqual(formatValue(1234.5, 'rpm', 'de-DE'), '1.235 rpm');
+        assert.strictEqual(formatValue(1234.5, 'rpm', 'en-US'), '1,235 rpm');
+    });
+
+    it('converts replies with the unit profile', () => {
+        const emulator = new ELM327Emulator({ values: { vss: 100, temp: 100 } });
+        return connect(emulator).then(connected => {
+            reader = connected;
+            reader.unitProfile = unitProfiles.us;
+            reader.locale = 'en-US';
+            return Promise.all([reader.query('vss'), reader.query('temp')]);
+        }).then(([vss, temp]: OBDReply[]) => {
+            assert.strictEqual(vss.kind === 'pid' && vss.converted.unit, 'mph');
+            assert.strictEqual(reader.formatReply(temp), '212 °F');
+        });
+    });
+
+    it('decodes the wide range sensor current as current in mA', () => {
+        const emulator = new ELM327Emulator({ values: { lambdac11: '80008100' } });
+        return connect(emulator).then(connected => {
+            reader = connected;
+            reader.locale = 'en-US';
+            return reader.query('lambdac11');
+        }).then(reply => {
+            assert.deepStrictEqual(reply.value, { ratio: 1, current: 1 });
+            assert.deepStrictEqual(reply.converted.fieldUnits, { current: 'mA' });
+            assert.strictEqual(reader.formatReply(reply), 'ratio: 1.000, current: 1.00 mA');
+        });
+    });
+
+    it('names the current column of the wide range sensors in exports', () => {
+        const chunks: string[] = [];
+        return connect(new ELM327Emulator()).then(connected => {
+            reader = connected;
+            reader.addPoller('lambdac11');
+            const exporter = new DataExporter(reader, { write: (chunk: string) => chunks.push(chunk) });
+            exporter.start();
+            exporter.stop();
+            assert.strictEqual(chunks.join('').split('\n')[0], 'timestamp,lambdac11.ratio,lambdac11.current (mA)');
+        });
+    });
+});
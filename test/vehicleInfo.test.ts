@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+
+import { OBDReader } from '../lib/obd';
+import { ELM327Emulator } from '../lib/elm327Emulator';
+import { connect, disconnect } from './connect';
+
+describe('Vehicle information', () => {
+    let reader: OBDReader;
+
+    afterEach(() => disconnect(reader));
+
+    function vehicleInfo(protocol: string, headers: boolean) {
+        const emulator = new ELM327Emulator({
+            vehicleProtocol: protocol,
+            vin: 'WVWZZZ1JZXW000001',
+            calibrationIds: ['JMB*36761500', 'ABC123'],
+            cvns: ['1791BC82', '0000abcd'],
+            ecuName: 'ECM-EngineControl'
+        });
+        return connect(emulator).then(connected => {
+            reader = connected;
+            return reader.setHeaders(headers);
+        }).then(() => reader.getVehicleInfo());
+    }
+
+    [['6', true, '7E8'], ['6', false, 'unknown'], ['3', true, '10'], ['3', false, 'unknown']].forEach(([protocol, headers, ecu]: [string, boolean, string]) => {
+        it('reads everything on protocol ' + protocol + ' with headers ' + (headers ? 'on' : 'off'), () => {
+            return vehicleInfo(protocol, headers).then(info => {
+                assert.deepStrictEqual(Object.keys(info), [ecu]);
+                const { vin, calibrationIds, cvns, ecuName, inUsePerformance } = info[ecu];
+                assert.strictEqual(vin, 'WVWZZZ1JZXW000001');
+                assert.deepStrictEqual(calibrationIds, ['JMB*36761500', 'ABC123']);
+                assert.deepStrictEqual(cvns, ['1791BC82', '0000ABCD']);
+                assert.strictEqual(ecuName, 'ECM-EngineControl');
+                assert.deepStrictEqual([inUsePerformance.ignition, inUsePerformance.obdConditions, inUsePerformance.ignitionCycles], ['spark', 412, 1301]);
+                assert.deepStrictEqual(inUsePerformance.monitors.catalystBank1, { completions: 98, conditions: 412, ratio: 98 / 412 });
+                assert.deepStrictEqual(inUsePerformance.monitors.catalystBank2, { completions: 0, conditions: 0, ratio: 0 });
+                assert.strictEqual(Object.keys(inUsePerformance.monitors).length, 9);
+            });
+        });
+    });
+
+    it('skips the PIDs the vehicle doesn\'t support', () => {
+        const emulator = new ELM327Emulator();
+        const messages: string[] = [];
+        return connect(emulator).then(connected => {
+            reader = connected;
+            return reader.discoverSupportedPids();
+        }).then(() => {
+            reader.on('debug', (message: string) => messages.push(message));
+            return reader.getVehicleInfo();
+        }).then(info => {
+            assert.strictEqual(info.unknown.inUsePerformance.ignition, 'spark');
+            //PID 0B isn't in the bitmap, so it isn't asked for and can't fail.
+            assert.deepStrictEqual(messages.filter(message => message.indexOf('ipt_compression') !== -1), []);
+        });
+    });
+});